@@ -1,3 +1,75 @@
+/** Event that the tests can fire; fire resolves once async listeners finish. */
+function createMockEvent<T>() {
+  const listeners: Array<(e: T) => unknown> = [];
+  return {
+    event: jest.fn((listener: (e: T) => unknown) => {
+      listeners.push(listener);
+      return { dispose: jest.fn() };
+    }),
+    fire: (e: T) => Promise.all(listeners.map((listener) => listener(e))),
+  };
+}
+
+export interface QuickPick {
+  items: QuickPickItem[];
+  selectedItems: QuickPickItem[];
+  title?: string;
+  placeholder?: string;
+  value: string;
+  buttons: QuickInputButton[];
+  busy: boolean;
+  show: jest.Mock;
+  hide: jest.Mock;
+  dispose: jest.Mock;
+  onDidAccept: jest.Mock;
+  onDidHide: jest.Mock;
+  onDidTriggerButton: jest.Mock;
+  onDidTriggerItemButton: jest.Mock;
+  /** Test helper: selects the item and accepts it */
+  accept(item: QuickPickItem): Promise<unknown>;
+  /** Test helper: presses a title bar button */
+  triggerButton(button: QuickInputButton): Promise<unknown>;
+  /** Test helper: presses a button on an item */
+  triggerItemButton(
+    item: QuickPickItem,
+    button: QuickInputButton
+  ): Promise<unknown>;
+}
+
+export function createMockQuickPick(): QuickPick {
+  const onDidAccept = createMockEvent<void>();
+  const onDidHide = createMockEvent<void>();
+  const onDidTriggerButton = createMockEvent<QuickInputButton>();
+  const onDidTriggerItemButton = createMockEvent<{
+    item: QuickPickItem;
+    button: QuickInputButton;
+  }>();
+  const quickPick: QuickPick = {
+    items: [],
+    selectedItems: [],
+    value: "",
+    buttons: [],
+    busy: false,
+    show: jest.fn(),
+    hide: jest.fn(() => {
+      onDidHide.fire();
+    }),
+    dispose: jest.fn(),
+    onDidAccept: onDidAccept.event,
+    onDidHide: onDidHide.event,
+    onDidTriggerButton: onDidTriggerButton.event,
+    onDidTriggerItemButton: onDidTriggerItemButton.event,
+    accept: (item) => {
+      quickPick.selectedItems = [item];
+      return onDidAccept.fire();
+    },
+    triggerButton: (button) => onDidTriggerButton.fire(button),
+    triggerItemButton: (item, button) =>
+      onDidTriggerItemButton.fire({ item, button }),
+  };
+  return quickPick;
+}
+
 export const window = {
   createStatusBarItem: jest.fn(() => ({
     text: "",
@@ -8,8 +80,36 @@ export const window = {
     dispose: jest.fn(),
   })),
   showQuickPick: jest.fn(() => Promise.resolve(undefined)),
+  createQuickPick: jest.fn(() => createMockQuickPick()),
   showErrorMessage: jest.fn(() => Promise.resolve(undefined)),
+  showWarningMessage: jest.fn(() => Promise.resolve(undefined)),
   showInformationMessage: jest.fn(() => Promise.resolve(undefined)),
+  withProgress: jest.fn(
+    (
+      _options: unknown,
+      task: (progress: { report: jest.Mock }, token: unknown) => unknown
+    ) => task({ report: jest.fn() }, new CancellationTokenSource().token)
+  ),
+  showTextDocument: jest.fn(() => Promise.resolve(undefined)),
+};
+
+export const workspace = {
+  getConfiguration: jest.fn(() => ({
+    get: jest.fn((key: string, defaultValue?: unknown) => defaultValue),
+  })),
+  onDidChangeConfiguration: jest.fn(() => ({
+    dispose: jest.fn(),
+  })),
+  openTextDocument: jest.fn(
+    (options: { content?: string; language?: string }) =>
+      Promise.resolve({ getText: () => options.content ?? "", ...options })
+  ),
+};
+
+export const env = {
+  clipboard: {
+    writeText: jest.fn(() => Promise.resolve()),
+  },
 };
 
 export const commands = {
@@ -20,16 +120,75 @@ export const commands = {
   getCommands: jest.fn(() => Promise.resolve([] as string[])),
 };
 
+export const ProgressLocation = {
+  SourceControl: 1,
+  Window: 10,
+  Notification: 15,
+};
+
 export const StatusBarAlignment = {
   Right: 2,
   Left: 1,
 };
 
+export class ThemeColor {
+  constructor(public readonly id: string) {}
+}
+
+export class ThemeIcon {
+  constructor(public readonly id: string) {}
+}
+
+export class MarkdownString {
+  isTrusted?: boolean | { readonly enabledCommands: readonly string[] };
+  supportHtml?: boolean;
+
+  constructor(public value = "", public supportThemeIcons = false) {}
+
+  appendMarkdown(value: string): MarkdownString {
+    this.value += value;
+    return this;
+  }
+}
+
+export class CancellationTokenSource {
+  private listeners: Array<() => void> = [];
+  token = {
+    isCancellationRequested: false,
+    onCancellationRequested: jest.fn((listener: () => void) => {
+      this.listeners.push(listener);
+      return { dispose: jest.fn() };
+    }),
+  };
+  cancel = jest.fn(() => {
+    this.token.isCancellationRequested = true;
+    this.listeners.forEach((listener) => listener());
+  });
+  dispose = jest.fn();
+}
+
 export const QuickPickItemKind = {
   Separator: -1,
   Default: 0,
 };
 
+export interface QuickPickItem {
+  label: string;
+  kind?: number;
+  description?: string;
+  detail?: string;
+  buttons?: QuickInputButton[];
+}
+
+export interface QuickInputButton {
+  iconPath: unknown;
+  tooltip?: string;
+}
+
+export const QuickInputButtons = {
+  Back: { iconPath: "back" } as QuickInputButton,
+};
+
 export interface OutputChannel {
   appendLine: jest.Mock;
   dispose: jest.Mock;
@@ -13,6 +13,12 @@ import {
 } from "./index";
 import { createMockOutputChannel } from "./__mocks__/vscode";
 
+/** Returns the count heading of the markdown tooltip, without formatting. */
+function getTooltipHeading(item?: vscode.StatusBarItem): string | undefined {
+  const tooltip = item?.tooltip as vscode.MarkdownString | undefined;
+  return tooltip?.value.split("\n")[0].replace(/\*\*/g, "");
+}
+
 describe("Property-Based Tests", () => {
   beforeEach(() => {
     jest.clearAllMocks();
@@ -363,11 +369,19 @@ describe("Property-Based Tests", () => {
           // Status bar should have been created
           expect(vscode.window.createStatusBarItem).toHaveBeenCalled();
 
-          // Command should have been registered exactly once (or 3 times with the new architecture)
+          // Each owner command should have been registered exactly once
           // 1. mcp-acs.registerExtension
-          // 2. mcp-acs.unregisterExtension
-          // 3. mcp-acs.showMenu
-          expect(vscode.commands.registerCommand).toHaveBeenCalledTimes(3);
+          // 2. mcp-acs.getProtocolInfo
+          // 3. mcp-acs.unregisterExtension
+          // 4. mcp-acs.updateExtension
+          // 5. mcp-acs.reportProgress
+          // 6. mcp-acs.heartbeat
+          // 7. mcp-acs.runAction
+          // 8. mcp-acs.showMenu
+          // 9. mcp-acs.exportDiagnostics
+          // 10. mcp-acs.clearErrors
+          // 11. mcp-acs.reportError
+          expect(vscode.commands.registerCommand).toHaveBeenCalledTimes(11);
 
           // Cleanup
           dispose();
@@ -414,13 +428,14 @@ describe("Property-Based Tests", () => {
             // Execute the command
             await commandHandler();
 
-            // Verify showQuickPick was called with the correct extension IDs
-            const showQuickPickMock = vscode.window.showQuickPick as jest.Mock;
-            expect(showQuickPickMock).toHaveBeenCalled();
+            // Verify the menu was created with the correct extension IDs
+            const createQuickPickMock = vscode.window
+              .createQuickPick as jest.Mock;
+            expect(createQuickPickMock).toHaveBeenCalled();
 
-            // Get the items passed to showQuickPick
-            const callArgs = showQuickPickMock.mock.calls[0];
-            const items = callArgs[0] as vscode.QuickPickItem[];
+            // Get the items shown in the menu
+            const menu = createQuickPickMock.mock.results[0].value;
+            const items = menu.items as vscode.QuickPickItem[];
 
             // Filter out separator and diagnostics
             const extensionItems = items.filter(
@@ -600,7 +615,7 @@ describe("Property-Based Tests", () => {
             expect(statusBar?.show).toHaveBeenCalled();
 
             // Tooltip should show correct count
-            expect(statusBar?.tooltip).toBe(
+            expect(getTooltipHeading(statusBar)).toBe(
               `ACS Extensions (${activeCount} active)`
             );
           } else {
@@ -946,7 +961,7 @@ describe("Property-Based Tests", () => {
 
             // Verify tooltip reflects the current count
             expect(statusBar).toBeDefined();
-            expect(statusBar?.tooltip).toBe(`ACS Extensions (${i + 1} active)`);
+            expect(getTooltipHeading(statusBar)).toBe(`ACS Extensions (${i + 1} active)`);
           }
 
           // Now unregister extensions one by one and verify tooltip updates
@@ -961,7 +976,7 @@ describe("Property-Based Tests", () => {
 
             if (i > 0) {
               // Verify tooltip reflects the current count
-              expect(statusBar?.tooltip).toBe(`ACS Extensions (${i} active)`);
+              expect(getTooltipHeading(statusBar)).toBe(`ACS Extensions (${i} active)`);
             }
           }
 
@@ -1010,13 +1025,14 @@ describe("Property-Based Tests", () => {
             // Execute the command
             await commandHandler();
 
-            // Verify showQuickPick was called with the correct extension IDs
-            const showQuickPickMock = vscode.window.showQuickPick as jest.Mock;
-            expect(showQuickPickMock).toHaveBeenCalled();
+            // Verify the menu was created with the correct extension IDs
+            const createQuickPickMock = vscode.window
+              .createQuickPick as jest.Mock;
+            expect(createQuickPickMock).toHaveBeenCalled();
 
-            // Get the items passed to showQuickPick
-            const callArgs = showQuickPickMock.mock.calls[0];
-            const items = callArgs[0] as vscode.QuickPickItem[];
+            // Get the items shown in the menu
+            const menu = createQuickPickMock.mock.results[0].value;
+            const items = menu.items as vscode.QuickPickItem[];
 
             // Filter out separator and diagnostics
             const extensionItems = items.filter(
@@ -1039,13 +1055,10 @@ describe("Property-Based Tests", () => {
             );
             expect(diagnosticItem).toBeDefined();
 
-            // Verify the quick pick options are correct
-            const options = callArgs[1];
-            expect(options).toHaveProperty(
-              "placeHolder",
-              "Active ACS Extensions"
-            );
-            expect(options).toHaveProperty("canPickMany", false);
+            // Verify the quick pick is titled and shown
+            expect(menu.title).toBe("ACS Extensions");
+            expect(menu.placeholder).toBe("Active ACS Extensions");
+            expect(menu.show).toHaveBeenCalled();
           }
 
           // Cleanup
@@ -1355,7 +1368,7 @@ describe("Property-Based Tests", () => {
           expect(showMenuCalls).toHaveLength(1);
 
           // Verify tooltip shows count of 1
-          expect(statusBar?.tooltip).toBe("ACS Extensions (1 active)");
+          expect(getTooltipHeading(statusBar)).toBe("ACS Extensions (1 active)");
 
           // Verify diagnostic info shows exactly 1 extension
           const diagnosticInfo = getDiagnosticInfo();
@@ -1512,7 +1525,7 @@ describe("Property-Based Tests", () => {
           const statusBar = getStatusBarItem();
           if (initialCount > 0) {
             expect(statusBar).toBeDefined();
-            expect(statusBar?.tooltip).toBe(
+            expect(getTooltipHeading(statusBar)).toBe(
               `ACS Extensions (${initialCount} active)`
             );
           }
@@ -1594,7 +1607,7 @@ describe("Property-Based Tests", () => {
           expect(statusBarAfterReReg?.show).toHaveBeenCalled();
 
           // Verify tooltip is correct
-          expect(statusBarAfterReReg?.tooltip).toBe(
+          expect(getTooltipHeading(statusBarAfterReReg)).toBe(
             "ACS Extensions (1 active)"
           );
 
@@ -1647,7 +1660,7 @@ describe("Property-Based Tests", () => {
 
           // When N > 0, the tooltip should equal "ACS Extensions (N active)"
           expect(statusBar).toBeDefined();
-          expect(statusBar?.tooltip).toBe(`ACS Extensions (${N} active)`);
+          expect(getTooltipHeading(statusBar)).toBe(`ACS Extensions (${N} active)`);
 
           // Verify the count matches
           expect(getActiveExtensionCount()).toBe(N);
@@ -1661,7 +1674,7 @@ describe("Property-Based Tests", () => {
 
             // Tooltip should reflect the current count
             expect(currentCount).toBe(i);
-            expect(currentStatusBar?.tooltip).toBe(
+            expect(getTooltipHeading(currentStatusBar)).toBe(
               `ACS Extensions (${i} active)`
             );
           }
@@ -2056,13 +2069,14 @@ describe("Property-Based Tests", () => {
           // Execute the command
           await commandHandler();
 
-          // Verify showQuickPick was called
-          const showQuickPickMock = vscode.window.showQuickPick as jest.Mock;
-          expect(showQuickPickMock).toHaveBeenCalled();
+          // Verify the menu was created
+          const createQuickPickMock = vscode.window
+            .createQuickPick as jest.Mock;
+          expect(createQuickPickMock).toHaveBeenCalled();
 
-          // Get the items passed to showQuickPick
-          const callArgs = showQuickPickMock.mock.calls[0];
-          const items = callArgs[0] as vscode.QuickPickItem[];
+          // Get the items shown in the menu
+          const menu = createQuickPickMock.mock.results[0].value;
+          const items = menu.items as vscode.QuickPickItem[];
 
           // Filter out separator and diagnostics
           const extensionItems = items.filter(
@@ -2111,13 +2125,13 @@ describe("Property-Based Tests", () => {
               // Execute the command again
               await commandHandlerAfter();
 
-              // Verify showQuickPick was called with updated list
-              const showQuickPickMockAfter = vscode.window
-                .showQuickPick as jest.Mock;
-              expect(showQuickPickMockAfter).toHaveBeenCalled();
+              // Verify the menu was created with updated list
+              const createQuickPickMockAfter = vscode.window
+                .createQuickPick as jest.Mock;
+              expect(createQuickPickMockAfter).toHaveBeenCalled();
 
-              const callArgsAfter = showQuickPickMockAfter.mock.calls[0];
-              const itemsAfter = callArgsAfter[0];
+              const menuAfter = createQuickPickMockAfter.mock.results[0].value;
+              const itemsAfter = menuAfter.items;
 
               // Menu should show only remaining extensions
               expect(itemsAfter).toHaveLength(remainingExtensions.length);
@@ -2156,13 +2170,13 @@ describe("Property-Based Tests", () => {
             // Execute the command
             await commandHandlerFinal();
 
-            // Verify showQuickPick was called with complete updated list
-            const showQuickPickMockFinal = vscode.window
-              .showQuickPick as jest.Mock;
-            expect(showQuickPickMockFinal).toHaveBeenCalled();
+            // Verify the menu was created with complete updated list
+            const createQuickPickMockFinal = vscode.window
+              .createQuickPick as jest.Mock;
+            expect(createQuickPickMockFinal).toHaveBeenCalled();
 
-            const callArgsFinal = showQuickPickMockFinal.mock.calls[0];
-            const itemsFinal = callArgsFinal[0];
+            const menuFinal = createQuickPickMockFinal.mock.results[0].value;
+            const itemsFinal = menuFinal.items;
 
             // Menu should show all currently registered extensions
             expect(itemsFinal).toHaveLength(allExtensions.length);
@@ -2,11 +2,42 @@ import * as vscode from "vscode";
 import {
   registerExtension,
   unregisterExtension,
+  updateExtension,
+  reportProgress,
+  reportError,
+  startHeartbeat,
+  getProtocolInfo,
+  setOutputChannel,
+  getDiagnosticInfo,
   dispose,
   getStatusBarItem,
   getActiveExtensionCount,
+  setStatusBarTextTemplate,
+  setExtensionContext,
+  exportDiagnostics,
   resetStateForTesting,
+  ExtensionAction,
+  DiagnosticsSnapshot,
 } from "./index";
+import type { QuickPick as MockQuickPick } from "./__mocks__/vscode";
+
+/** Returns the menu opened by the n-th createQuickPick call. */
+function getMenu(index = 0): MockQuickPick {
+  return (vscode.window.createQuickPick as jest.Mock).mock.results[index].value;
+}
+
+/** Returns the callback of a command registered through the vscode mock. */
+function getCommandCallback(command: string) {
+  return (vscode.commands.registerCommand as jest.Mock).mock.calls.find(
+    (call) => call[0] === command
+  )?.[1];
+}
+
+/** Returns the count heading of the markdown tooltip, without formatting. */
+function getTooltipHeading(item?: vscode.StatusBarItem): string | undefined {
+  const tooltip = item?.tooltip as vscode.MarkdownString | undefined;
+  return tooltip?.value.split("\n")[0].replace(/\*\*/g, "");
+}
 
 describe("Shared Status Bar", () => {
   beforeEach(() => {
@@ -15,6 +46,13 @@ describe("Shared Status Bar", () => {
   });
 
   afterEach(() => {
+    // Tests that stand in for another owner change these mocks
+    (vscode.commands.executeCommand as jest.Mock).mockImplementation(() =>
+      Promise.reject(new Error("Command not found"))
+    );
+    (vscode.commands.getCommands as jest.Mock).mockImplementation(() =>
+      Promise.resolve([])
+    );
     dispose();
     resetStateForTesting();
   });
@@ -139,6 +177,3076 @@ describe("Shared Status Bar", () => {
     // The afterEach will clean this up for the next test
   });
 
+  describe("updateExtension", () => {
+    it("registers mcp-acs.updateExtension when becoming owner", async () => {
+      await registerExtension("test-ext");
+      expect(vscode.commands.registerCommand).toHaveBeenCalledWith(
+        "mcp-acs.updateExtension",
+        expect.any(Function)
+      );
+    });
+
+    it("merges partial metadata into the existing entry", async () => {
+      await registerExtension("test-ext", {
+        displayName: "Test Extension",
+        status: "ok",
+      });
+
+      await updateExtension("test-ext", { status: "error" });
+
+      await getCommandCallback("mcp-acs.showMenu")();
+      const items = getMenu().items;
+      expect(items[0]).toMatchObject({
+        label: "$(error) Test Extension",
+        description: "test-ext",
+        detail: "Status: error",
+      });
+    });
+
+    it("ignores updates for extensions that are not registered", async () => {
+      await registerExtension("test-ext");
+      await updateExtension("other-ext", { status: "error" });
+      expect(getActiveExtensionCount()).toBe(1);
+    });
+
+    it("re-renders the status bar on update", async () => {
+      await registerExtension("test-ext");
+      const statusBar = getStatusBarItem();
+      (statusBar?.show as jest.Mock).mockClear();
+
+      await updateExtension("test-ext", { status: "warning" });
+
+      expect(statusBar?.show).toHaveBeenCalledTimes(1);
+    });
+
+    it("delegates to the owner when mcp-acs.updateExtension exists", async () => {
+      (vscode.commands.getCommands as jest.Mock).mockResolvedValueOnce([
+        "mcp-acs.updateExtension",
+      ]);
+      (vscode.commands.executeCommand as jest.Mock).mockResolvedValueOnce(
+        undefined
+      );
+
+      await updateExtension("test-ext", { status: "error" });
+
+      expect(vscode.commands.executeCommand).toHaveBeenCalledWith(
+        "mcp-acs.updateExtension",
+        "test-ext",
+        { status: "error" }
+      );
+    });
+
+    it("updates an open menu in place with the updated metadata", async () => {
+      await registerExtension("test-ext");
+
+      await getCommandCallback("mcp-acs.showMenu")();
+      await updateExtension("test-ext", { status: "error" });
+
+      expect(vscode.window.createQuickPick).toHaveBeenCalledTimes(1);
+      expect(getMenu().items[0].label).toBe("$(error) test-ext");
+    });
+  });
+
+  describe("Aggregate health", () => {
+    it("shows the plain indicator when every extension is ok", async () => {
+      await registerExtension("test-ext-1", { status: "ok" });
+      await registerExtension("test-ext-2");
+
+      const statusBar = getStatusBarItem();
+      expect(statusBar?.text).toBe("$(layers) ACS");
+      expect(statusBar?.backgroundColor).toBeUndefined();
+    });
+
+    it("shows the warning count and background for warnings", async () => {
+      await registerExtension("test-ext-1", { status: "warning" });
+      await registerExtension("test-ext-2", { status: "warning" });
+      await registerExtension("test-ext-3", { status: "ok" });
+
+      const statusBar = getStatusBarItem();
+      expect(statusBar?.text).toBe("$(warning) ACS 2⚠");
+      expect(statusBar?.backgroundColor).toEqual(
+        new vscode.ThemeColor("statusBarItem.warningBackground")
+      );
+    });
+
+    it("lets errors take precedence over warnings", async () => {
+      await registerExtension("test-ext-1", { status: "warning" });
+      await registerExtension("test-ext-2", { status: "error" });
+
+      const statusBar = getStatusBarItem();
+      expect(statusBar?.text).toBe("$(error) ACS 1✖");
+      expect(statusBar?.backgroundColor).toEqual(
+        new vscode.ThemeColor("statusBarItem.errorBackground")
+      );
+    });
+
+    it("clears the indicator when the failing extension recovers", async () => {
+      await registerExtension("test-ext", { status: "error" });
+      await updateExtension("test-ext", { status: "ok" });
+
+      const statusBar = getStatusBarItem();
+      expect(statusBar?.text).toBe("$(layers) ACS");
+      expect(statusBar?.backgroundColor).toBeUndefined();
+    });
+  });
+
+  describe("Tooltip", () => {
+    const getTooltip = () =>
+      getStatusBarItem()?.tooltip as vscode.MarkdownString;
+
+    it("renders a markdown table row for every extension", async () => {
+      await registerExtension("test-ext-1", {
+        displayName: "Debugger",
+        status: "error",
+        detail: "Server crashed",
+      });
+      await registerExtension("test-ext-2");
+
+      const tooltip = getTooltip();
+      expect(tooltip).toBeInstanceOf(vscode.MarkdownString);
+      expect(tooltip.supportThemeIcons).toBe(true);
+      expect(tooltip.value).toContain("| $(error) | Debugger | Server crashed |");
+      expect(tooltip.value).toContain("| $(pass) | test\\-ext\\-2 |");
+    });
+
+    it("links actions through mcp-acs.runAction and trusts only it", async () => {
+      await registerExtension("test-ext", {
+        actions: [
+          { label: "Restart", command: "test-ext.restart", arguments: [1] },
+        ],
+      });
+
+      const tooltip = getTooltip();
+      const args = encodeURIComponent(JSON.stringify(["test-ext", "Restart"]));
+      expect(tooltip.value).toContain(
+        `[Restart](command:mcp-acs.runAction?${args})`
+      );
+      expect(tooltip.value).not.toContain("test-ext.restart");
+      expect(tooltip.isTrusted).toEqual({
+        enabledCommands: ["mcp-acs.runAction"],
+      });
+    });
+
+    it("links actions whose arguments cannot be serialized", async () => {
+      const circular: Record<string, unknown> = {};
+      circular.self = circular;
+      await registerExtension("test-ext", {
+        actions: [
+          { label: "Broken", command: "test.broken", arguments: [circular] },
+          { label: "Big", command: "test.big", arguments: [BigInt(1)] },
+        ],
+      });
+      await registerExtension("other-ext", { status: "error" });
+
+      const tooltip = getTooltip();
+      expect(tooltip.value).toContain("[Broken](command:mcp-acs.runAction?");
+      expect(tooltip.value).toContain("[Big](command:mcp-acs.runAction?");
+      expect(getStatusBarItem()?.text).toBe("$(error) ACS 1✖");
+    });
+
+    it("runs linked actions through the action pipeline", async () => {
+      (vscode.commands.executeCommand as jest.Mock).mockResolvedValue({
+        status: "warning",
+      });
+      await registerExtension("test-ext", {
+        actions: [{ label: "Check", command: "test.check", arguments: [1] }],
+      });
+
+      const link = getTooltip().value.match(
+        /\[Check\]\(command:([^?]+)\?([^)]+)\)/
+      )!;
+      await getCommandCallback(link[1])(
+        ...JSON.parse(decodeURIComponent(link[2]))
+      );
+
+      expect(vscode.commands.executeCommand).toHaveBeenCalledWith(
+        "test.check",
+        1
+      );
+      // The result of the action is applied
+      expect(getStatusBarItem()?.text).toBe("$(warning) ACS 1⚠");
+    });
+
+    it("escapes markdown in display names", async () => {
+      await registerExtension("test-ext", { displayName: "a | b *c*" });
+
+      expect(getTooltip().value).toContain("a \\| b \\*c\\*");
+    });
+  });
+
+  describe("Extended statuses", () => {
+    it("shows a spinner with the count for busy extensions", async () => {
+      await registerExtension("test-ext-1", { status: "busy" });
+      await registerExtension("test-ext-2", { status: "busy" });
+
+      const statusBar = getStatusBarItem();
+      expect(statusBar?.text).toBe("$(sync~spin) ACS 2");
+      expect(statusBar?.backgroundColor).toBeUndefined();
+    });
+
+    it("prefers starting over busy in the status bar", async () => {
+      await registerExtension("test-ext-1", { status: "busy" });
+      await registerExtension("test-ext-2", { status: "starting" });
+
+      expect(getStatusBarItem()?.text).toBe("$(loading~spin) ACS 1");
+    });
+
+    it("does not let stopped or disabled extensions change the status bar", async () => {
+      await registerExtension("test-ext-1", { status: "stopped" });
+      await registerExtension("test-ext-2", { status: "disabled" });
+
+      expect(getStatusBarItem()?.text).toBe("$(layers) ACS");
+    });
+
+    it("sorts the menu by severity and shows the status message", async () => {
+      await registerExtension("ext-disabled", { status: "disabled" });
+      await registerExtension("ext-ok");
+      await registerExtension("ext-busy", {
+        status: "busy",
+        statusMessage: "Indexing workspace",
+      });
+      await registerExtension("ext-error", { status: "error" });
+
+      await getCommandCallback("mcp-acs.showMenu")();
+      const items = getMenu().items;
+      expect(items.slice(0, 4).map((item: any) => item.label)).toEqual([
+        "$(error) ext-error",
+        "$(sync~spin) ext-busy",
+        "ext-ok",
+        "$(circle-slash) ext-disabled",
+      ]);
+      expect(items[1].detail).toBe("Status: busy - Indexing workspace");
+    });
+
+    it("reports each extension's status in diagnostics", async () => {
+      const channel = {
+        appendLine: jest.fn(),
+        dispose: jest.fn(),
+        show: jest.fn(),
+      };
+      await registerExtension("ext-ok");
+      await registerExtension("ext-stopped", {
+        status: "stopped",
+        statusMessage: "Stopped by user",
+      });
+      setOutputChannel(channel as unknown as vscode.OutputChannel);
+
+      expect(getDiagnosticInfo().extensions).toEqual([
+        { id: "ext-ok", status: "ok", statusMessage: undefined },
+        {
+          id: "ext-stopped",
+          status: "stopped",
+          statusMessage: "Stopped by user",
+        },
+      ]);
+
+      await getCommandCallback("mcp-acs.diagnostics")();
+      const output = channel.appendLine.mock.calls
+        .map((call) => call[0])
+        .join("\n");
+      expect(output).toContain("  - ext-ok [ok]");
+      expect(output).toContain("  - ext-stopped [stopped] Stopped by user");
+    });
+  });
+
+  describe("reportProgress", () => {
+    it("shows a spinner with the percentage in the status bar", async () => {
+      await registerExtension("test-ext");
+
+      await reportProgress("test-ext", { message: "Indexing", total: 10 });
+      expect(getStatusBarItem()?.text).toBe("$(sync~spin) ACS");
+
+      await reportProgress("test-ext", { increment: 4 });
+      expect(getStatusBarItem()?.text).toBe("$(sync~spin) ACS 40%");
+    });
+
+    it("averages the percentage across extensions", async () => {
+      await registerExtension("test-ext-1");
+      await registerExtension("test-ext-2");
+
+      await reportProgress("test-ext-1", { increment: 20 });
+      await reportProgress("test-ext-2", { increment: 3, total: 5 });
+
+      expect(getStatusBarItem()?.text).toBe("$(sync~spin) ACS 40%");
+    });
+
+    it("keeps the error indicator while an operation runs", async () => {
+      await registerExtension("test-ext", { status: "error" });
+
+      await reportProgress("test-ext", { increment: 50 });
+
+      expect(getStatusBarItem()?.text).toBe("$(error) ACS 1✖ $(sync~spin) 50%");
+    });
+
+    it("clears progress when done or when the total is reached", async () => {
+      await registerExtension("test-ext-1");
+      await registerExtension("test-ext-2");
+
+      await reportProgress("test-ext-1", { message: "Booting" });
+      await reportProgress("test-ext-1", { done: true });
+      await reportProgress("test-ext-2", { increment: 60 });
+      await reportProgress("test-ext-2", { increment: 40 });
+
+      expect(getStatusBarItem()?.text).toBe("$(layers) ACS");
+    });
+
+    it("shows the progress on the extension's menu entry", async () => {
+      await registerExtension("test-ext");
+      await reportProgress("test-ext", { message: "Indexing", increment: 25 });
+
+      await getCommandCallback("mcp-acs.showMenu")();
+      const items = getMenu().items;
+      expect(items[0].detail).toBe("$(sync~spin) Indexing 25%");
+    });
+
+    it("delegates to the owner when mcp-acs.reportProgress exists", async () => {
+      (vscode.commands.getCommands as jest.Mock).mockResolvedValueOnce([
+        "mcp-acs.reportProgress",
+      ]);
+      (vscode.commands.executeCommand as jest.Mock).mockResolvedValueOnce(
+        undefined
+      );
+
+      await reportProgress("test-ext", { increment: 10 });
+
+      expect(vscode.commands.executeCommand).toHaveBeenCalledWith(
+        "mcp-acs.reportProgress",
+        "test-ext",
+        { increment: 10 }
+      );
+    });
+
+    it("only lists the commands until the owner served progress", async () => {
+      (vscode.commands.getCommands as jest.Mock).mockResolvedValueOnce([
+        "mcp-acs.reportProgress",
+      ]);
+      (vscode.commands.executeCommand as jest.Mock)
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce(undefined);
+
+      await reportProgress("test-ext", { increment: 10 });
+      await reportProgress("test-ext", { increment: 10 });
+
+      expect(vscode.commands.getCommands).toHaveBeenCalledTimes(1);
+      expect(vscode.commands.executeCommand).toHaveBeenCalledTimes(2);
+
+      // A failed call forgets the command, so the next one looks it up again
+      await reportProgress("test-ext", { increment: 10 });
+      await reportProgress("test-ext", { increment: 10 });
+      expect(vscode.commands.getCommands).toHaveBeenCalledTimes(2);
+    });
+
+    it("leaves no timer behind after delegating", async () => {
+      jest.useFakeTimers();
+      (vscode.commands.getCommands as jest.Mock).mockResolvedValueOnce([
+        "mcp-acs.reportProgress",
+      ]);
+      (vscode.commands.executeCommand as jest.Mock).mockResolvedValueOnce(
+        undefined
+      );
+
+      await reportProgress("test-ext", { increment: 10 });
+
+      expect(jest.getTimerCount()).toBe(0);
+      jest.useRealTimers();
+    });
+
+    it("drops progress when the extension unregisters", async () => {
+      await registerExtension("test-ext-1");
+      await registerExtension("test-ext-2");
+      await reportProgress("test-ext-1", { increment: 10 });
+
+      await unregisterExtension("test-ext-1");
+
+      expect(getStatusBarItem()?.text).toBe("$(layers) ACS");
+    });
+  });
+
+  describe("reportError", () => {
+    const restart = { label: "Restart Server", command: "test.restart" };
+
+    it("shows the extension as failing with a badge count", async () => {
+      await registerExtension("test-ext");
+
+      await reportError("test-ext", new Error("Server crashed"));
+      await reportError("test-ext", "Retry failed");
+
+      expect(getStatusBarItem()?.text).toBe("$(error) ACS 1✖ $(bell-dot) 2");
+      expect(getDiagnosticInfo().extensions[0]).toMatchObject({
+        status: "error",
+        statusMessage: "Retry failed",
+      });
+    });
+
+    it("shows warnings as degraded", async () => {
+      await registerExtension("test-ext");
+
+      await reportError("test-ext", "Slow response", { severity: "warning" });
+
+      expect(getStatusBarItem()?.text).toBe("$(warning) ACS 1⚠ $(bell-dot) 1");
+    });
+
+    it("keeps a more severe status of the extension", async () => {
+      await registerExtension("test-ext", {
+        status: "error",
+        statusMessage: "Not configured",
+      });
+
+      await reportError("test-ext", "Slow response", { severity: "warning" });
+
+      expect(getDiagnosticInfo().extensions[0]).toMatchObject({
+        status: "error",
+        statusMessage: "Not configured",
+      });
+    });
+
+    it("keeps reported errors in the error history", async () => {
+      await registerExtension("test-ext");
+
+      await reportError("test-ext", new Error("Server crashed"));
+
+      expect(getDiagnosticInfo().errors).toEqual([
+        expect.objectContaining({
+          operation: "Reported error",
+          extensionId: "test-ext",
+          message: "Server crashed",
+          stack: expect.stringContaining("Server crashed"),
+        }),
+      ]);
+    });
+
+    it("lists the errors on their own menu page", async () => {
+      await registerExtension("test-ext", {
+        displayName: "Test",
+        actions: [restart],
+      });
+      await reportError("test-ext", "First");
+      await reportError("test-ext", "Second", { actionHint: "Check the logs" });
+      await getCommandCallback("mcp-acs.showMenu")();
+      const menu = getMenu();
+      expect(menu.items[0].detail).toBe(
+        "Status: error - Second · $(bell-dot) 2 error(s)"
+      );
+
+      menu.accept(menu.items[0]);
+      expect(menu.items[0]).toMatchObject({
+        label: "$(bell-dot) Errors (2)",
+        description: "Second",
+      });
+
+      await menu.accept(menu.items[0]);
+      expect(menu.title).toBe("ACS Extensions › Test › Errors");
+      expect(menu.items.map((item) => item.label)).toEqual([
+        "$(error) Second",
+        "$(error) First",
+        "",
+        "$(clear-all) Clear Errors",
+      ]);
+      expect(menu.items[0].detail).toBe("$(lightbulb) Check the logs");
+
+      menu.triggerButton(vscode.QuickInputButtons.Back);
+      expect(menu.title).toBe("ACS Extensions › Test");
+    });
+
+    it("runs the action named by the hint when an error is selected", async () => {
+      (vscode.commands.executeCommand as jest.Mock).mockResolvedValue(
+        undefined
+      );
+      await registerExtension("test-ext", { actions: [restart] });
+      await reportError("test-ext", "Server crashed", {
+        actionHint: "Restart Server",
+      });
+      await getCommandCallback("mcp-acs.showMenu")();
+      const menu = getMenu();
+      menu.accept(menu.items[0]);
+      menu.accept(menu.items[0]);
+      expect(menu.items[0].detail).toBe("$(play) Restart Server");
+
+      await menu.accept(menu.items[0]);
+
+      expect(vscode.commands.executeCommand).toHaveBeenCalledWith(
+        "test.restart"
+      );
+    });
+
+    it("restores the extension's status when the errors are cleared", async () => {
+      await registerExtension("test-ext", { status: "busy" });
+      await reportError("test-ext", "Server crashed");
+      await getCommandCallback("mcp-acs.showMenu")();
+      const menu = getMenu();
+      menu.accept(menu.items[0]);
+      menu.accept(menu.items[0]);
+
+      await menu.accept(menu.items[menu.items.length - 1]);
+
+      expect(getDiagnosticInfo().extensions[0].status).toBe("busy");
+      expect(getStatusBarItem()?.text).toBe("$(sync~spin) ACS 1");
+      expect(menu.title).toBe("ACS Extensions › test-ext");
+    });
+
+    it("delegates to the owner when mcp-acs.reportError exists", async () => {
+      (vscode.commands.getCommands as jest.Mock).mockResolvedValueOnce([
+        "mcp-acs.reportError",
+      ]);
+      (vscode.commands.executeCommand as jest.Mock).mockResolvedValueOnce(
+        undefined
+      );
+
+      await reportError("test-ext", "Server crashed", { severity: "warning" });
+
+      expect(vscode.commands.executeCommand).toHaveBeenCalledWith(
+        "mcp-acs.reportError",
+        "test-ext",
+        {
+          message: "Server crashed",
+          stack: undefined,
+          severity: "warning",
+          actionHint: undefined,
+        }
+      );
+    });
+
+    it("hands reported errors to the next owner", async () => {
+      (vscode.commands.executeCommand as jest.Mock).mockImplementation(() =>
+        Promise.resolve()
+      );
+      await registerExtension("owner-ext");
+      getCommandCallback("mcp-acs.registerExtension")(
+        "remote-ext",
+        undefined,
+        "mcp-acs.acceptOwnership.other"
+      );
+      getCommandCallback("mcp-acs.reportError")("remote-ext", {
+        message: "Server crashed",
+      });
+
+      await unregisterExtension("owner-ext");
+      await Promise.resolve();
+
+      expect(vscode.commands.executeCommand).toHaveBeenCalledWith(
+        "mcp-acs.acceptOwnership.other",
+        expect.objectContaining({
+          reportedErrors: [
+            [
+              "remote-ext",
+              [expect.objectContaining({ message: "Server crashed" })],
+            ],
+          ],
+        })
+      );
+    });
+  });
+
+  describe("Heartbeats", () => {
+    const options = { intervalMs: 1000, staleAfterMs: 3000, evictAfterMs: 10000 };
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it("registers mcp-acs.heartbeat when becoming owner", async () => {
+      await registerExtension("test-ext");
+      expect(vscode.commands.registerCommand).toHaveBeenCalledWith(
+        "mcp-acs.heartbeat",
+        expect.any(Function)
+      );
+    });
+
+    it("keeps extensions that keep sending heartbeats", async () => {
+      await registerExtension("test-ext");
+      const heartbeat = startHeartbeat("test-ext", options);
+
+      await jest.advanceTimersByTimeAsync(20000);
+
+      expect(getActiveExtensionCount()).toBe(1);
+      expect(getDiagnosticInfo().extensions[0].status).toBe("ok");
+      heartbeat.dispose();
+    });
+
+    it("marks extensions with missed heartbeats as not responding", async () => {
+      await registerExtension("test-ext");
+      startHeartbeat("test-ext", options).dispose();
+      await jest.advanceTimersByTimeAsync(0);
+
+      await jest.advanceTimersByTimeAsync(3000);
+
+      expect(getDiagnosticInfo().extensions[0]).toMatchObject({
+        id: "test-ext",
+        status: "not responding",
+        statusMessage: "No heartbeat for 3s",
+      });
+      expect(getStatusBarItem()?.text).toBe("$(warning) ACS 1⚠");
+    });
+
+    it("evicts extensions after the grace period", async () => {
+      await registerExtension("test-ext-1");
+      await registerExtension("test-ext-2");
+      startHeartbeat("test-ext-1", options).dispose();
+      await jest.advanceTimersByTimeAsync(0);
+
+      await jest.advanceTimersByTimeAsync(10000);
+
+      expect(getDiagnosticInfo().registeredExtensions).toEqual(["test-ext-2"]);
+      expect(getStatusBarItem()?.text).toBe("$(layers) ACS");
+    });
+
+    it("registers evicted extensions again when heartbeats resume", async () => {
+      await registerExtension("test-ext-1");
+      await registerExtension("test-ext-2");
+      startHeartbeat("test-ext-1", options).dispose();
+      await jest.advanceTimersByTimeAsync(10000);
+      expect(getActiveExtensionCount()).toBe(1);
+
+      const heartbeat = startHeartbeat("test-ext-1", options);
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(getActiveExtensionCount()).toBe(2);
+      expect(getDiagnosticInfo().registeredExtensions).toContain("test-ext-1");
+      heartbeat.dispose();
+    });
+
+    it("registers again when the owner no longer knows the extension", async () => {
+      (vscode.commands.getCommands as jest.Mock).mockResolvedValue([
+        "mcp-acs.registerExtension",
+        "mcp-acs.heartbeat",
+      ]);
+      (vscode.commands.executeCommand as jest.Mock).mockImplementation(
+        (command: string) =>
+          Promise.resolve(command === "mcp-acs.heartbeat" ? false : undefined)
+      );
+      await registerExtension("client-ext", { status: "warning" });
+
+      startHeartbeat("client-ext", options).dispose();
+      await jest.advanceTimersByTimeAsync(0);
+
+      const registrations = (
+        vscode.commands.executeCommand as jest.Mock
+      ).mock.calls.filter(([command]) => command === "mcp-acs.registerExtension");
+      expect(registrations).toHaveLength(2);
+      expect(registrations[1][1]).toBe("client-ext");
+      expect(registrations[1][2]).toEqual({ status: "warning" });
+    });
+
+    it("recovers when heartbeats resume", async () => {
+      await registerExtension("test-ext");
+      startHeartbeat("test-ext", options).dispose();
+      await jest.advanceTimersByTimeAsync(4000);
+      expect(getDiagnosticInfo().extensions[0].status).toBe("not responding");
+
+      const heartbeat = startHeartbeat("test-ext", options);
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(getDiagnosticInfo().extensions[0].status).toBe("ok");
+      heartbeat.dispose();
+    });
+
+    it("never marks extensions without heartbeats as not responding", async () => {
+      await registerExtension("test-ext");
+
+      await jest.advanceTimersByTimeAsync(600000);
+
+      expect(getDiagnosticInfo().extensions[0].status).toBe("ok");
+      expect(getActiveExtensionCount()).toBe(1);
+    });
+  });
+
+  describe("Ownership handoff", () => {
+    const registerRemote = (id: string, successor?: string) =>
+      getCommandCallback("mcp-acs.registerExtension")(
+        id,
+        { displayName: `Remote ${id}` },
+        successor
+      );
+
+    it("hands remaining extensions to a successor when the owner's last extension leaves", async () => {
+      (vscode.commands.executeCommand as jest.Mock).mockImplementation(
+        (command: string) =>
+          command === "mcp-acs.acceptOwnership.other"
+            ? Promise.resolve()
+            : Promise.reject(new Error("Command not found"))
+      );
+      await registerExtension("owner-ext");
+      registerRemote("remote-ext", "mcp-acs.acceptOwnership.other");
+      const statusBar = getStatusBarItem();
+
+      await unregisterExtension("owner-ext");
+      await Promise.resolve();
+
+      expect(vscode.commands.executeCommand).toHaveBeenCalledWith(
+        "mcp-acs.acceptOwnership.other",
+        {
+          extensions: [["remote-ext", { displayName: "Remote remote-ext" }]],
+          successors: [["remote-ext", "mcp-acs.acceptOwnership.other"]],
+          progress: [],
+          records: [
+            [
+              "remote-ext",
+              expect.objectContaining({ registeredAt: expect.any(Number) }),
+            ],
+          ],
+          reportedErrors: [],
+          heartbeats: [],
+        }
+      );
+      expect(statusBar?.dispose).toHaveBeenCalled();
+      expect(getStatusBarItem()).toBeUndefined();
+      expect(getActiveExtensionCount()).toBe(0);
+    });
+
+    it("logs a failed handoff after evicting the owner's last extension", async () => {
+      jest.useFakeTimers();
+      const consoleErrorSpy = jest
+        .spyOn(console, "error")
+        .mockImplementation();
+      await registerExtension("owner-ext");
+      registerRemote("remote-ext", "mcp-acs.acceptOwnership.other");
+      startHeartbeat("owner-ext", {
+        intervalMs: 1000,
+        evictAfterMs: 10000,
+      }).dispose();
+      await jest.advanceTimersByTimeAsync(0);
+      // No successor accepts, and taking ownership back fails
+      (vscode.commands.registerCommand as jest.Mock).mockImplementationOnce(
+        () => {
+          throw new Error("Registration failed");
+        }
+      );
+
+      await jest.advanceTimersByTimeAsync(10000);
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        "Failed to evict extension:",
+        expect.objectContaining({ message: "Registration failed" })
+      );
+      consoleErrorSpy.mockRestore();
+      jest.useRealTimers();
+    });
+
+    it("waits for the successor before unregistering resolves", async () => {
+      let accept: () => void = () => undefined;
+      (vscode.commands.executeCommand as jest.Mock).mockImplementation(
+        (command: string) =>
+          command === "mcp-acs.acceptOwnership.other"
+            ? new Promise<void>((resolve) => (accept = resolve))
+            : Promise.reject(new Error("Command not found"))
+      );
+      await registerExtension("owner-ext");
+      registerRemote("remote-ext", "mcp-acs.acceptOwnership.other");
+      let unregistered = false;
+
+      const unregister = unregisterExtension("owner-ext").then(
+        () => (unregistered = true)
+      );
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(unregistered).toBe(false);
+
+      accept();
+      await unregister;
+      expect(unregistered).toBe(true);
+    });
+
+    it("returns the handoff from dispose", async () => {
+      let accept: () => void = () => undefined;
+      (vscode.commands.executeCommand as jest.Mock).mockImplementation(
+        () => new Promise<void>((resolve) => (accept = resolve))
+      );
+      await registerExtension("owner-ext");
+      registerRemote("remote-ext", "mcp-acs.acceptOwnership.other");
+      let disposed = false;
+
+      const handoff = dispose().then(() => (disposed = true));
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(disposed).toBe(false);
+
+      accept();
+      await handoff;
+      expect(disposed).toBe(true);
+    });
+
+    it("hands heartbeat state to the successor", async () => {
+      (vscode.commands.executeCommand as jest.Mock).mockImplementation(
+        () => Promise.resolve()
+      );
+      await registerExtension("owner-ext");
+      registerRemote("remote-ext", "mcp-acs.acceptOwnership.other");
+      getCommandCallback("mcp-acs.heartbeat")("remote-ext", {
+        intervalMs: 1000,
+      });
+
+      await unregisterExtension("owner-ext");
+
+      expect(vscode.commands.executeCommand).toHaveBeenCalledWith(
+        "mcp-acs.acceptOwnership.other",
+        expect.objectContaining({
+          heartbeats: [
+            [
+              "remote-ext",
+              {
+                lastSeen: expect.any(Number),
+                staleAfterMs: 3000,
+                evictAfterMs: 30000,
+              },
+            ],
+          ],
+        })
+      );
+    });
+
+    it("takes ownership back when no successor accepts", async () => {
+      await registerExtension("owner-ext");
+      registerRemote("remote-ext", "mcp-acs.acceptOwnership.gone");
+
+      await unregisterExtension("owner-ext");
+      // Let the failed handoff settle
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(getActiveExtensionCount()).toBe(1);
+      expect(getDiagnosticInfo().registeredExtensions).toEqual(["remote-ext"]);
+      expect(getDiagnosticInfo().registerCommandRegistered).toBe(true);
+      expect(getStatusBarItem()).toBeDefined();
+    });
+
+    it("keeps ownership when no other copy registered a successor", async () => {
+      await registerExtension("owner-ext");
+      registerRemote("remote-ext");
+      const statusBar = getStatusBarItem();
+
+      await unregisterExtension("owner-ext");
+
+      expect(getStatusBarItem()).toBe(statusBar);
+      expect(getActiveExtensionCount()).toBe(1);
+    });
+
+    it("hands remaining extensions to a successor on dispose", async () => {
+      (vscode.commands.executeCommand as jest.Mock).mockImplementation(
+        () => Promise.resolve()
+      );
+      await registerExtension("owner-ext");
+      registerRemote("remote-ext", "mcp-acs.acceptOwnership.other");
+
+      dispose();
+
+      expect(vscode.commands.executeCommand).toHaveBeenCalledWith(
+        "mcp-acs.acceptOwnership.other",
+        expect.objectContaining({
+          extensions: [["remote-ext", { displayName: "Remote remote-ext" }]],
+        })
+      );
+    });
+
+    it("registers a successor command and restores handed over state", async () => {
+      (vscode.commands.getCommands as jest.Mock).mockResolvedValueOnce([
+        "mcp-acs.registerExtension",
+      ]);
+      (vscode.commands.executeCommand as jest.Mock).mockResolvedValueOnce(
+        undefined
+      );
+
+      await registerExtension("client-ext");
+
+      const [, , , successorCommand] = (
+        vscode.commands.executeCommand as jest.Mock
+      ).mock.calls[0];
+      expect(successorCommand).toMatch(/^mcp-acs\.acceptOwnership\./);
+      expect(getActiveExtensionCount()).toBe(0);
+
+      getCommandCallback(successorCommand)({
+        extensions: [
+          ["client-ext", {}],
+          ["remote-ext", { status: "error" }],
+        ],
+        successors: [["remote-ext", "mcp-acs.acceptOwnership.other"]],
+        progress: [],
+      });
+
+      expect(getActiveExtensionCount()).toBe(2);
+      expect(getDiagnosticInfo().registerCommandRegistered).toBe(true);
+      expect(getStatusBarItem()?.text).toBe("$(error) ACS 1✖");
+    });
+
+    it("shows handed over errors without a severity", async () => {
+      (vscode.commands.getCommands as jest.Mock).mockResolvedValueOnce([
+        "mcp-acs.registerExtension",
+      ]);
+      (vscode.commands.executeCommand as jest.Mock).mockResolvedValueOnce(
+        undefined
+      );
+      await registerExtension("client-ext");
+      const successorCommand = (vscode.commands.executeCommand as jest.Mock)
+        .mock.calls[0][3];
+
+      getCommandCallback(successorCommand)({
+        extensions: [["remote-ext", {}]],
+        successors: [],
+        progress: [],
+        // Reported through a copy that did not send a severity
+        reportedErrors: [["remote-ext", [{ timestamp: 1, message: "Boom" }]]],
+      });
+
+      expect(getStatusBarItem()?.text).toBe(
+        "$(warning) ACS 1⚠ $(bell-dot) 1"
+      );
+    });
+
+    it("keeps watching heartbeats after taking over", async () => {
+      (vscode.commands.getCommands as jest.Mock).mockResolvedValueOnce([
+        "mcp-acs.registerExtension",
+      ]);
+      (vscode.commands.executeCommand as jest.Mock).mockResolvedValueOnce(
+        undefined
+      );
+      await registerExtension("client-ext");
+      const successorCommand = (vscode.commands.executeCommand as jest.Mock)
+        .mock.calls[0][3];
+
+      getCommandCallback(successorCommand)({
+        extensions: [
+          ["client-ext", {}],
+          ["crashed-ext", {}],
+        ],
+        successors: [],
+        progress: [],
+        heartbeats: [
+          [
+            "crashed-ext",
+            {
+              lastSeen: Date.now() - 5000,
+              staleAfterMs: 3000,
+              evictAfterMs: 30000,
+            },
+          ],
+        ],
+      });
+
+      expect(
+        getDiagnosticInfo().extensions.find((ext) => ext.id === "crashed-ext")
+          ?.status
+      ).toBe("not responding");
+    });
+  });
+
+  describe("Protocol versioning", () => {
+    const mockOwner = (commands: string[], protocolInfo?: object) => {
+      (vscode.commands.getCommands as jest.Mock).mockResolvedValue(commands);
+      (vscode.commands.executeCommand as jest.Mock).mockImplementation(
+        (command: string) =>
+          Promise.resolve(
+            command === "mcp-acs.getProtocolInfo" ? protocolInfo : undefined
+          )
+      );
+    };
+
+    const createChannel = () => ({
+      appendLine: jest.fn(),
+      dispose: jest.fn(),
+      show: jest.fn(),
+    });
+
+    it("reports the library version of package.json", () => {
+      const info = getProtocolInfo();
+      expect(info.libraryVersion).toBe(require("../package.json").version);
+      expect(info.protocolVersion).toBe(2);
+      expect(info.capabilities).toContain("extendedStatus");
+    });
+
+    it("serves protocol info through mcp-acs.getProtocolInfo when owner", async () => {
+      await registerExtension("test-ext");
+      expect(getCommandCallback("mcp-acs.getProtocolInfo")()).toEqual(
+        getProtocolInfo()
+      );
+    });
+
+    it("sends metadata unchanged to a current owner", async () => {
+      mockOwner(
+        ["mcp-acs.registerExtension", "mcp-acs.getProtocolInfo"],
+        getProtocolInfo()
+      );
+      const metadata = { status: "busy" as const, statusMessage: "Indexing" };
+
+      await registerExtension("client-ext", metadata);
+
+      expect(vscode.commands.executeCommand).toHaveBeenCalledWith(
+        "mcp-acs.registerExtension",
+        "client-ext",
+        metadata,
+        expect.any(String),
+        expect.any(String)
+      );
+    });
+
+    it("downgrades metadata and warns for a legacy owner", async () => {
+      mockOwner(["mcp-acs.registerExtension"]);
+      const channel = createChannel();
+      setOutputChannel(channel as unknown as vscode.OutputChannel);
+
+      await registerExtension("client-ext", {
+        displayName: "Client",
+        status: "busy",
+        statusMessage: "Indexing",
+      });
+
+      expect(vscode.commands.executeCommand).toHaveBeenCalledWith(
+        "mcp-acs.registerExtension",
+        "client-ext",
+        { displayName: "Client", status: "ok" },
+        expect.any(String),
+        expect.any(String)
+      );
+      expect(channel.appendLine).toHaveBeenCalledWith(
+        expect.stringContaining(
+          'protocol v1) cannot display statusMessage, status "busy" (shown as "ok") of client-ext'
+        )
+      );
+    });
+
+    it("keeps output channels from owners without log routing", async () => {
+      mockOwner(
+        ["mcp-acs.registerExtension", "mcp-acs.getProtocolInfo"],
+        {
+          ...getProtocolInfo(),
+          libraryVersion: "1.0.23",
+          capabilities: getProtocolInfo().capabilities.filter(
+            (capability) => capability !== "logs"
+          ),
+        }
+      );
+      const shared = createChannel();
+      const own = createChannel();
+      setOutputChannel(shared as unknown as vscode.OutputChannel);
+
+      await registerExtension("client-ext", {
+        displayName: "Client",
+        outputChannel: own as unknown as vscode.OutputChannel,
+      });
+
+      expect(vscode.commands.executeCommand).toHaveBeenCalledWith(
+        "mcp-acs.registerExtension",
+        "client-ext",
+        { displayName: "Client" },
+        expect.any(String),
+        expect.any(String)
+      );
+      expect(shared.appendLine).toHaveBeenCalledWith(
+        expect.stringContaining(
+          "cannot route the logs of client-ext to its output channel"
+        )
+      );
+      // This copy still writes its own messages to the channel
+      expect(own.appendLine).toHaveBeenCalledWith(
+        expect.stringContaining("Registered with existing status bar owner")
+      );
+    });
+
+    it("leaves out actions that need a confirmation the owner cannot show", async () => {
+      mockOwner(["mcp-acs.registerExtension"]);
+      const channel = createChannel();
+      setOutputChannel(channel as unknown as vscode.OutputChannel);
+      const restart = {
+        label: "Restart",
+        command: "test.restart",
+        enabledWhen: { status: ["error" as const] },
+      };
+
+      await registerExtension("client-ext", {
+        group: "Debugging",
+        actions: [
+          restart,
+          { label: "Reset", command: "test.reset", confirm: "Reset all?" },
+        ],
+      });
+
+      expect(vscode.commands.executeCommand).toHaveBeenCalledWith(
+        "mcp-acs.registerExtension",
+        "client-ext",
+        { group: "Debugging", actions: [restart] },
+        expect.any(String),
+        expect.any(String)
+      );
+      const lines = channel.appendLine.mock.calls.map((call) => call[0]);
+      expect(lines).toContainEqual(
+        expect.stringContaining(
+          'cannot ask for confirmation, leaving out the actions "Reset" of client-ext'
+        )
+      );
+      expect(lines).toContainEqual(
+        expect.stringContaining("ignores enabledWhen, group of client-ext")
+      );
+    });
+
+    it("downgrades metadata for an owner that won the race", async () => {
+      mockOwner(["mcp-acs.registerExtension"]);
+      // No owner yet when looking, but another copy registers first
+      (vscode.commands.getCommands as jest.Mock).mockResolvedValueOnce([]);
+      (vscode.commands.registerCommand as jest.Mock).mockImplementationOnce(
+        () => {
+          throw new Error("command 'mcp-acs.registerExtension' already exists");
+        }
+      );
+      const consoleErrorSpy = jest
+        .spyOn(console, "error")
+        .mockImplementation();
+      const restart = { label: "Restart", command: "test.restart" };
+
+      await registerExtension("client-ext", {
+        actions: [
+          restart,
+          { label: "Reset", command: "test.reset", confirm: "Reset all?" },
+        ],
+      });
+
+      expect(vscode.commands.executeCommand).toHaveBeenCalledWith(
+        "mcp-acs.registerExtension",
+        "client-ext",
+        { actions: [restart] },
+        expect.any(String),
+        expect.any(String)
+      );
+      expect(getActiveExtensionCount()).toBe(0);
+      consoleErrorSpy.mockRestore();
+    });
+
+    it("leaves out confirmed actions in updates to owners without action options", async () => {
+      mockOwner(["mcp-acs.updateExtension", "mcp-acs.getProtocolInfo"], {
+        ...getProtocolInfo(),
+        capabilities: ["update", "extendedStatus"],
+      });
+
+      await updateExtension("client-ext", {
+        actions: [
+          { label: "Reset", command: "test.reset", confirm: "Reset all?" },
+        ],
+      });
+
+      expect(vscode.commands.executeCommand).toHaveBeenCalledWith(
+        "mcp-acs.updateExtension",
+        "client-ext",
+        { actions: [] }
+      );
+    });
+
+    it("re-registers with the full metadata when the owner lacks updates", async () => {
+      mockOwner(["mcp-acs.registerExtension", "mcp-acs.unregisterExtension"]);
+      await registerExtension("client-ext", {
+        displayName: "Client",
+        status: "ok",
+      });
+      (vscode.commands.executeCommand as jest.Mock).mockClear();
+
+      await updateExtension("client-ext", { status: "error" });
+
+      expect(
+        (vscode.commands.executeCommand as jest.Mock).mock.calls
+      ).toEqual([
+        ["mcp-acs.unregisterExtension", "client-ext"],
+        [
+          "mcp-acs.registerExtension",
+          "client-ext",
+          { displayName: "Client", status: "error" },
+        ],
+      ]);
+    });
+
+    it("gives up on a legacy owner that does not answer an update", async () => {
+      mockOwner(["mcp-acs.registerExtension", "mcp-acs.unregisterExtension"]);
+      await registerExtension("client-ext", { status: "ok" });
+      jest.useFakeTimers();
+      (vscode.commands.executeCommand as jest.Mock).mockImplementation(
+        () => new Promise(() => undefined)
+      );
+
+      const update = updateExtension("client-ext", { status: "error" });
+      await jest.advanceTimersByTimeAsync(3000);
+      await update;
+
+      expect(vscode.commands.executeCommand).not.toHaveBeenCalledWith(
+        "mcp-acs.registerExtension",
+        "client-ext",
+        expect.anything()
+      );
+      jest.useRealTimers();
+    });
+
+    it("warns once when the owner does not support progress", async () => {
+      mockOwner(["mcp-acs.registerExtension"]);
+      const channel = createChannel();
+      setOutputChannel(channel as unknown as vscode.OutputChannel);
+
+      await reportProgress("client-ext", { increment: 10 });
+      await reportProgress("client-ext", { increment: 10 });
+
+      const warnings = channel.appendLine.mock.calls.filter((call) =>
+        call[0].includes("does not support progress reporting")
+      );
+      expect(warnings).toHaveLength(1);
+    });
+  });
+
+  describe("Status bar settings", () => {
+    let settings: Record<string, unknown>;
+
+    beforeEach(() => {
+      settings = {};
+      (vscode.workspace.getConfiguration as jest.Mock).mockImplementation(
+        () => ({
+          get: (key: string, defaultValue?: unknown) =>
+            key in settings ? settings[key] : defaultValue,
+        })
+      );
+    });
+
+    afterEach(() => {
+      (vscode.workspace.getConfiguration as jest.Mock).mockImplementation(
+        () => ({
+          get: (key: string, defaultValue?: unknown) => defaultValue,
+        })
+      );
+    });
+
+    const changeSettings = (changes: Record<string, unknown>) => {
+      Object.assign(settings, changes);
+      for (const [listener] of (
+        vscode.workspace.onDidChangeConfiguration as jest.Mock
+      ).mock.calls) {
+        listener({
+          affectsConfiguration: (section: string) =>
+            section === "mcpAcs.statusBar",
+        });
+      }
+    };
+
+    it("creates the item with the configured alignment and priority", async () => {
+      settings = { alignment: "left", priority: 5 };
+
+      await registerExtension("test-ext");
+
+      expect(vscode.workspace.getConfiguration).toHaveBeenCalledWith(
+        "mcpAcs.statusBar"
+      );
+      expect(vscode.window.createStatusBarItem).toHaveBeenCalledWith(
+        "mcp-acs.shared-status",
+        vscode.StatusBarAlignment.Left,
+        5
+      );
+    });
+
+    it("recreates a single item when alignment or priority change", async () => {
+      await registerExtension("test-ext");
+      const oldItem = getStatusBarItem();
+
+      changeSettings({ priority: 1000 });
+
+      expect(oldItem?.dispose).toHaveBeenCalled();
+      expect(vscode.window.createStatusBarItem).toHaveBeenCalledTimes(2);
+      expect(vscode.window.createStatusBarItem).toHaveBeenLastCalledWith(
+        "mcp-acs.shared-status",
+        vscode.StatusBarAlignment.Right,
+        1000
+      );
+      expect(getStatusBarItem()).not.toBe(oldItem);
+      expect(getStatusBarItem()?.show).toHaveBeenCalled();
+    });
+
+    it("hides the item when visibility is never", async () => {
+      settings = { visibility: "never" };
+
+      await registerExtension("test-ext", { status: "error" });
+
+      expect(getStatusBarItem()?.show).not.toHaveBeenCalled();
+      expect(getDiagnosticInfo().statusBarVisible).toBe(false);
+    });
+
+    it("only shows the item on issues when visibility is onIssues", async () => {
+      settings = { visibility: "onIssues" };
+      await registerExtension("test-ext", { status: "ok" });
+      const statusBar = getStatusBarItem();
+      expect(statusBar?.show).not.toHaveBeenCalled();
+
+      await updateExtension("test-ext", { status: "warning" });
+      expect(statusBar?.show).toHaveBeenCalled();
+
+      await updateExtension("test-ext", { status: "ok" });
+      expect(statusBar?.hide).toHaveBeenCalled();
+    });
+
+    it("applies visibility changes without recreating the item", async () => {
+      await registerExtension("test-ext");
+      const statusBar = getStatusBarItem();
+
+      changeSettings({ visibility: "never" });
+
+      expect(statusBar?.hide).toHaveBeenCalled();
+      expect(vscode.window.createStatusBarItem).toHaveBeenCalledTimes(1);
+    });
+
+    it("falls back to defaults for invalid values", async () => {
+      settings = { alignment: "middle", priority: "high", visibility: "sometimes" };
+
+      await registerExtension("test-ext");
+
+      expect(vscode.window.createStatusBarItem).toHaveBeenCalledWith(
+        "mcp-acs.shared-status",
+        vscode.StatusBarAlignment.Right,
+        100
+      );
+      expect(getStatusBarItem()?.show).toHaveBeenCalled();
+    });
+
+    it("renders the text template supplied by the owner", async () => {
+      setStatusBarTextTemplate("$(layers) ${name} ${count} ${errors}");
+      await registerExtension("ext-a", { status: "error" });
+      await registerExtension("ext-b");
+
+      expect(getStatusBarItem()?.text).toBe("$(layers) ACS 2 1");
+      expect(getStatusBarItem()?.backgroundColor).toEqual(
+        new vscode.ThemeColor("statusBarItem.errorBackground")
+      );
+    });
+
+    it("fills in warning, busy and message placeholders", async () => {
+      setStatusBarTextTemplate(
+        "${icon} ${warnings}/${busy} ${message} ${unknown}"
+      );
+      await registerExtension("ext-a", {
+        status: "warning",
+        statusMessage: "Low disk",
+      });
+      await registerExtension("ext-b");
+      await reportProgress("ext-b", { message: "Indexing", total: 10 });
+
+      expect(getStatusBarItem()?.text).toBe(
+        "$(warning) 1/1 Indexing ${unknown}"
+      );
+    });
+
+    it("drops the message of an extension that unregisters", async () => {
+      setStatusBarTextTemplate("${count}: ${message}");
+      await registerExtension("ext-a", { statusMessage: "Low disk" });
+      await registerExtension("ext-b");
+      await reportProgress("ext-b", { message: "Indexing" });
+      await registerExtension("ext-c");
+
+      await unregisterExtension("ext-b");
+      expect(getStatusBarItem()?.text).toBe("2: Low disk");
+
+      await unregisterExtension("ext-a");
+      expect(getStatusBarItem()?.text).toBe("1:");
+    });
+
+    it("prefers the user template and restores the built-in text", async () => {
+      settings = { textTemplate: "Agents: ${count}" };
+      setStatusBarTextTemplate("${name}");
+      await registerExtension("test-ext");
+      expect(getStatusBarItem()?.text).toBe("Agents: 1");
+
+      changeSettings({ textTemplate: "" });
+      expect(getStatusBarItem()?.text).toBe("ACS");
+
+      setStatusBarTextTemplate(undefined);
+      expect(getStatusBarItem()?.text).toBe("$(layers) ACS");
+    });
+  });
+
+  describe("Menu", () => {
+    const openMenu = async () => {
+      await getCommandCallback("mcp-acs.showMenu")();
+      return getMenu();
+    };
+
+    const findItem = (menu: MockQuickPick, label: string) => {
+      const item = menu.items.find((item) => item.label === label);
+      expect(item).toBeDefined();
+      return item!;
+    };
+
+    it("shows the extension's actions with a breadcrumb and back button", async () => {
+      await registerExtension("test-ext", {
+        displayName: "Test Extension",
+        actions: [{ label: "Restart", command: "test.restart" }],
+      });
+
+      const menu = await openMenu();
+      expect(menu.title).toBe("ACS Extensions");
+      expect(menu.buttons).toEqual([]);
+
+      await menu.accept(findItem(menu, "Test Extension"));
+
+      expect(menu.title).toBe("ACS Extensions › Test Extension");
+      expect(menu.placeholder).toBe("Actions for Test Extension");
+      expect(menu.buttons).toEqual([vscode.QuickInputButtons.Back]);
+      expect(menu.items.map((item) => item.label)).toEqual([
+        "Restart",
+        "Open Settings",
+      ]);
+    });
+
+    it("opens the extension's output channel from Show Logs", async () => {
+      const channel = {
+        name: "Test Logs",
+        appendLine: jest.fn(),
+        show: jest.fn(),
+        dispose: jest.fn(),
+      };
+      await registerExtension("test-ext", {
+        displayName: "Test Extension",
+        outputChannel: channel as unknown as vscode.OutputChannel,
+      });
+      await registerExtension("other-ext", { displayName: "Other" });
+
+      const menu = await openMenu();
+      await menu.accept(findItem(menu, "Other"));
+      expect(menu.items.map((item) => item.label)).toEqual(["Open Settings"]);
+
+      menu.triggerButton(vscode.QuickInputButtons.Back);
+      await menu.accept(findItem(menu, "Test Extension"));
+      const item = findItem(menu, "$(output) Show Logs");
+      expect(item.description).toBe("Test Logs");
+
+      await menu.accept(item);
+
+      expect(channel.show).toHaveBeenCalled();
+      expect(menu.hide).toHaveBeenCalled();
+    });
+
+    it("returns to the extension list with the back button", async () => {
+      await registerExtension("test-ext");
+      const menu = await openMenu();
+      await menu.accept(findItem(menu, "test-ext"));
+
+      await menu.triggerButton(vscode.QuickInputButtons.Back);
+
+      expect(menu.title).toBe("ACS Extensions");
+      expect(menu.buttons).toEqual([]);
+      expect(menu.items[0].label).toBe("test-ext");
+    });
+
+    it("stays open after running an action", async () => {
+      (vscode.commands.executeCommand as jest.Mock).mockResolvedValue(undefined);
+      await registerExtension("test-ext", {
+        actions: [{ label: "Restart", command: "test.restart", arguments: [1] }],
+      });
+      const menu = await openMenu();
+      await menu.accept(findItem(menu, "test-ext"));
+
+      await menu.accept(findItem(menu, "Restart"));
+      await menu.accept(findItem(menu, "Restart"));
+
+      expect(vscode.commands.executeCommand).toHaveBeenCalledTimes(2);
+      expect(vscode.commands.executeCommand).toHaveBeenCalledWith(
+        "test.restart",
+        1
+      );
+      expect(menu.hide).not.toHaveBeenCalled();
+      expect(menu.busy).toBe(false);
+      expect(menu.title).toBe("ACS Extensions › test-ext");
+    });
+
+    it("warns and stays open when an action fails", async () => {
+      jest.spyOn(console, "error").mockImplementation();
+      await registerExtension("test-ext", {
+        actions: [{ label: "Restart", command: "test.restart" }],
+      });
+      const menu = await openMenu();
+      await menu.accept(findItem(menu, "test-ext"));
+
+      await menu.accept(findItem(menu, "Restart"));
+
+      expect(vscode.window.showWarningMessage).toHaveBeenCalledWith(
+        "Action failed: Command not found"
+      );
+      expect(menu.hide).not.toHaveBeenCalled();
+      (console.error as jest.Mock).mockRestore();
+    });
+
+    it("closes when opening settings", async () => {
+      (vscode.commands.executeCommand as jest.Mock).mockResolvedValue(undefined);
+      await registerExtension("test-ext", { settingsQuery: "@ext:test" });
+      const menu = await openMenu();
+      await menu.accept(findItem(menu, "test-ext"));
+
+      await menu.accept(findItem(menu, "Open Settings"));
+
+      expect(menu.hide).toHaveBeenCalled();
+      expect(menu.dispose).toHaveBeenCalled();
+      expect(vscode.commands.executeCommand).toHaveBeenCalledWith(
+        "workbench.action.openSettings",
+        "@ext:test"
+      );
+    });
+
+    it("shows inline actions and settings as buttons on the extension row", async () => {
+      await registerExtension("test-ext", {
+        actions: [
+          {
+            label: "Restart",
+            command: "test.restart",
+            inline: true,
+            icon: "debug-restart",
+          },
+          { label: "Show Logs", command: "test.logs", inline: true },
+          { label: "Reset", command: "test.reset" },
+        ],
+      });
+
+      const menu = await openMenu();
+
+      const buttons = findItem(menu, "test-ext").buttons;
+      expect(buttons?.map((button) => button.tooltip)).toEqual([
+        "Restart",
+        "Show Logs",
+        "Open Settings",
+      ]);
+      expect(buttons?.map((button) => button.iconPath)).toEqual([
+        new vscode.ThemeIcon("debug-restart"),
+        new vscode.ThemeIcon("play"),
+        new vscode.ThemeIcon("gear"),
+      ]);
+    });
+
+    it("runs an inline action from the extension list", async () => {
+      (vscode.commands.executeCommand as jest.Mock).mockResolvedValue(undefined);
+      await registerExtension("test-ext", {
+        actions: [
+          {
+            label: "Restart",
+            command: "test.restart",
+            arguments: ["now"],
+            inline: true,
+          },
+        ],
+      });
+      const menu = await openMenu();
+      const item = findItem(menu, "test-ext");
+
+      await menu.triggerItemButton(item, item.buttons![0]);
+
+      expect(vscode.commands.executeCommand).toHaveBeenCalledWith(
+        "test.restart",
+        "now"
+      );
+      expect(menu.hide).not.toHaveBeenCalled();
+      expect(menu.title).toBe("ACS Extensions");
+    });
+
+    it("opens settings from the gear button", async () => {
+      (vscode.commands.executeCommand as jest.Mock).mockResolvedValue(undefined);
+      await registerExtension("test-ext");
+      const menu = await openMenu();
+      const item = findItem(menu, "test-ext");
+
+      await menu.triggerItemButton(item, item.buttons![0]);
+
+      expect(menu.hide).toHaveBeenCalled();
+      expect(vscode.commands.executeCommand).toHaveBeenCalledWith(
+        "workbench.action.openSettings",
+        "test-ext"
+      );
+    });
+
+    it("routes selections by item kind rather than display text", async () => {
+      await registerExtension("test-ext", {
+        displayName: "Show Diagnostics",
+        actions: [
+          {
+            label: "Open Settings",
+            command: "test.settings",
+            description: "Opens the server settings",
+          },
+        ],
+      });
+      const menu = await openMenu();
+
+      await menu.accept(menu.items[0]);
+
+      expect(menu.title).toBe("ACS Extensions › Show Diagnostics");
+      expect(vscode.window.showInformationMessage).not.toHaveBeenCalled();
+      expect(menu.items[0]).toMatchObject({
+        label: "Open Settings",
+        description: "Opens the server settings",
+      });
+      expect(menu.items[0].detail).toBeUndefined();
+
+      await menu.accept(menu.items[0]);
+
+      expect(vscode.commands.executeCommand).toHaveBeenCalledWith(
+        "test.settings"
+      );
+      expect(vscode.commands.executeCommand).not.toHaveBeenCalledWith(
+        "workbench.action.openSettings",
+        expect.anything()
+      );
+    });
+
+    it("lists extensions under group headers", async () => {
+      await registerExtension("ext-other");
+      await registerExtension("ext-test-b", { group: "Testing" });
+      await registerExtension("ext-debug", { group: "Debugging" });
+      await registerExtension("ext-test-a", { group: "Testing" });
+      await registerExtension("ext-test-c", {
+        group: "Testing",
+        status: "error",
+      });
+
+      const menu = await openMenu();
+
+      expect(
+        menu.items.map((item) =>
+          item.kind === vscode.QuickPickItemKind.Separator
+            ? `-- ${item.label}`
+            : item.label
+        )
+      ).toEqual([
+        "-- Debugging",
+        "ext-debug",
+        "-- Testing",
+        "$(error) ext-test-c",
+        "ext-test-a",
+        "ext-test-b",
+        "-- Other",
+        "ext-other",
+        "-- ",
+        "Show Diagnostics",
+      ]);
+    });
+
+    it("lists groups by their group order", async () => {
+      await registerExtension("ext-data", { group: "Data" });
+      await registerExtension("ext-test", { group: "Testing", groupOrder: 2 });
+      await registerExtension("ext-debug-a", {
+        group: "Debugging",
+        groupOrder: 5,
+      });
+      await registerExtension("ext-debug-b", {
+        group: "Debugging",
+        groupOrder: 1,
+      });
+
+      const menu = await openMenu();
+
+      expect(
+        menu.items
+          .filter((item) => item.kind === vscode.QuickPickItemKind.Separator)
+          .map((item) => item.label)
+      ).toEqual(["Debugging", "Testing", "Data", ""]);
+    });
+
+    it("keeps ungrouped extensions apart from a group called Other", async () => {
+      await registerExtension("ext-plain");
+      await registerExtension("ext-other", { group: "Other" });
+
+      const menu = await openMenu();
+
+      expect(
+        menu.items.map((item) =>
+          item.kind === vscode.QuickPickItemKind.Separator
+            ? `-- ${item.label}`
+            : item.label
+        )
+      ).toEqual([
+        "-- Other",
+        "ext-other",
+        "-- Other (no group)",
+        "ext-plain",
+        "-- ",
+        "Show Diagnostics",
+      ]);
+    });
+
+    it("shows no group headers when no extension has a group", async () => {
+      await registerExtension("ext-a");
+      await registerExtension("ext-b");
+
+      const menu = await openMenu();
+
+      expect(
+        menu.items.filter(
+          (item) => item.kind === vscode.QuickPickItemKind.Separator
+        )
+      ).toHaveLength(1);
+    });
+
+    it("greys out actions that are disabled in the current state", async () => {
+      await registerExtension("test-ext", {
+        status: "stopped",
+        actions: [
+          {
+            label: "Stop",
+            command: "test.stop",
+            inline: true,
+            enabledWhen: { status: ["ok", "busy"] },
+          },
+          {
+            label: "Start",
+            command: "test.start",
+            enabledWhen: { status: ["stopped"] },
+          },
+        ],
+      });
+      const menu = await openMenu();
+      const item = findItem(menu, "$(debug-stop) test-ext");
+      expect(item.buttons?.map((button) => button.tooltip)).toEqual([
+        "Open Settings",
+      ]);
+
+      await menu.accept(item);
+      expect(menu.items[0]).toMatchObject({
+        label: "$(circle-slash) Stop",
+        detail: "Not available while stopped",
+      });
+      await menu.accept(menu.items[0]);
+      expect(vscode.commands.executeCommand).not.toHaveBeenCalled();
+
+      await updateExtension("test-ext", { status: "ok" });
+      expect(menu.items.map((item) => item.label)).toEqual([
+        "Stop",
+        "$(circle-slash) Start",
+        "Open Settings",
+      ]);
+    });
+
+    describe("recently used actions", () => {
+      const createContext = (stored?: unknown) => {
+        const values = new Map<string, unknown>([
+          ["mcpAcs.recentActions", stored],
+        ]);
+        return {
+          globalState: {
+            get: jest.fn((key: string, defaultValue?: unknown) =>
+              values.get(key) ?? defaultValue
+            ),
+            update: jest.fn((key: string, value: unknown) => {
+              values.set(key, value);
+              return Promise.resolve();
+            }),
+            keys: () => Array.from(values.keys()),
+          },
+        } as unknown as vscode.ExtensionContext;
+      };
+
+      const labels = (menu: MockQuickPick) =>
+        menu.items.map((item) => {
+          if (item.kind === vscode.QuickPickItemKind.Separator) {
+            return `-- ${item.label}`;
+          }
+          return item.description
+            ? `${item.label} (${item.description})`
+            : item.label;
+        });
+
+      beforeEach(() => {
+        (vscode.commands.executeCommand as jest.Mock).mockResolvedValue(
+          undefined
+        );
+      });
+
+      it("shows the last run actions at the top of the menu", async () => {
+        const context = createContext();
+        setExtensionContext(context);
+        await registerExtension("ext-a", {
+          displayName: "Debugger",
+          actions: [
+            { label: "Restart", command: "a.restart" },
+            { label: "Logs", command: "a.logs" },
+          ],
+        });
+        await registerExtension("ext-b", {
+          actions: [{ label: "Test", command: "b.test" }],
+        });
+        const menu = await openMenu();
+        expect(labels(menu)[0]).toBe("Debugger (ext-a)");
+
+        await menu.accept(findItem(menu, "Debugger"));
+        await menu.accept(findItem(menu, "Restart"));
+        await menu.triggerButton(vscode.QuickInputButtons.Back);
+        await menu.accept(findItem(menu, "ext-b"));
+        await menu.accept(findItem(menu, "Test"));
+        await menu.triggerButton(vscode.QuickInputButtons.Back);
+
+        expect(labels(menu).slice(0, 6)).toEqual([
+          "-- Recent",
+          "Test (ext-b)",
+          "Restart (Debugger)",
+          "-- Extensions",
+          "Debugger (ext-a)",
+          "ext-b (ext-b)",
+        ]);
+        expect(context.globalState.update).toHaveBeenLastCalledWith(
+          "mcpAcs.recentActions",
+          [
+            { extensionId: "ext-b", label: "Test" },
+            { extensionId: "ext-a", label: "Restart" },
+          ]
+        );
+
+        await menu.accept(findItem(menu, "Restart"));
+        expect(vscode.commands.executeCommand).toHaveBeenCalledTimes(3);
+        expect(labels(menu).slice(1, 3)).toEqual([
+          "Restart (Debugger)",
+          "Test (ext-b)",
+        ]);
+      });
+
+      it("restores recent actions and drops removed ones", async () => {
+        const context = createContext([
+          { extensionId: "ext-a", label: "Restart" },
+          { extensionId: "ext-a", label: "Removed" },
+          { extensionId: "ext-gone", label: "Restart" },
+        ]);
+        setExtensionContext(context);
+        await registerExtension("ext-a", {
+          actions: [{ label: "Restart", command: "a.restart" }],
+        });
+
+        const menu = await openMenu();
+
+        expect(labels(menu).slice(0, 3)).toEqual([
+          "-- Recent",
+          "Restart (ext-a)",
+          "-- Extensions",
+        ]);
+        // ext-gone may still register, so its entry is only hidden
+        expect(context.globalState.update).toHaveBeenCalledWith(
+          "mcpAcs.recentActions",
+          [
+            { extensionId: "ext-a", label: "Restart" },
+            { extensionId: "ext-gone", label: "Restart" },
+          ]
+        );
+      });
+
+      it("keeps actions with an id in the history when relabelled", async () => {
+        const context = createContext();
+        setExtensionContext(context);
+        await registerExtension("ext-a", {
+          actions: [{ id: "restart", label: "Restart", command: "a.restart" }],
+        });
+        // Links in the tooltip run through the action palette command
+        await getCommandCallback("mcp-acs.runAction")("ext-a", "Restart");
+        expect(context.globalState.update).toHaveBeenLastCalledWith(
+          "mcpAcs.recentActions",
+          [{ extensionId: "ext-a", id: "restart", label: "Restart" }]
+        );
+
+        await updateExtension("ext-a", {
+          actions: [
+            { id: "restart", label: "Restart Server", command: "a.restart" },
+          ],
+        });
+        const menu = await openMenu();
+
+        expect(labels(menu).slice(0, 2)).toEqual([
+          "-- Recent",
+          "Restart Server (ext-a)",
+        ]);
+      });
+
+      it("keeps the recent actions of extensions that register later", async () => {
+        const context = createContext([
+          { extensionId: "ext-a", label: "Restart" },
+        ]);
+        setExtensionContext(context);
+        await registerExtension("ext-b");
+
+        const menu = await openMenu();
+        expect(labels(menu)).not.toContain("-- Recent");
+        expect(context.globalState.update).not.toHaveBeenCalled();
+
+        await registerExtension("ext-a", {
+          actions: [{ label: "Restart", command: "a.restart" }],
+        });
+
+        expect(labels(menu).slice(0, 2)).toEqual([
+          "-- Recent",
+          "Restart (ext-a)",
+        ]);
+      });
+    });
+
+    it("goes back to the list when the shown extension unregisters", async () => {
+      await registerExtension("ext-a");
+      await registerExtension("ext-b");
+      const menu = await openMenu();
+      await menu.accept(findItem(menu, "ext-a"));
+
+      await unregisterExtension("ext-a");
+
+      expect(menu.title).toBe("ACS Extensions");
+      expect(menu.items[0].label).toBe("ext-b");
+    });
+
+    it("reuses the open menu when shown again", async () => {
+      await registerExtension("test-ext");
+      const menu = await openMenu();
+      await menu.accept(findItem(menu, "test-ext"));
+
+      await getCommandCallback("mcp-acs.showMenu")();
+
+      expect(vscode.window.createQuickPick).toHaveBeenCalledTimes(1);
+      expect(menu.title).toBe("ACS Extensions");
+    });
+
+    it("is closed on dispose", async () => {
+      await registerExtension("test-ext");
+      const menu = await openMenu();
+
+      dispose();
+
+      expect(menu.dispose).toHaveBeenCalled();
+    });
+  });
+
+  describe("Action palette", () => {
+    it("registers mcp-acs.runAction when becoming owner", async () => {
+      await registerExtension("test-ext");
+      expect(vscode.commands.registerCommand).toHaveBeenCalledWith(
+        "mcp-acs.runAction",
+        expect.any(Function)
+      );
+    });
+
+    it("lists the actions of all extensions with their owner", async () => {
+      await registerExtension("ext-a", {
+        displayName: "Debugger",
+        actions: [
+          {
+            label: "Restart",
+            command: "a.restart",
+            description: "Restart the debug server",
+          },
+        ],
+      });
+      await registerExtension("ext-b", {
+        actions: [
+          { label: "Restart", command: "b.restart" },
+          { label: "Run Tests", command: "b.test" },
+        ],
+      });
+      await registerExtension("ext-c");
+
+      await getCommandCallback("mcp-acs.runAction")();
+
+      const [items, options] = (vscode.window.showQuickPick as jest.Mock).mock
+        .calls[0];
+      expect(
+        items.map((item: vscode.QuickPickItem) => [
+          item.label,
+          item.description,
+          item.detail,
+        ])
+      ).toEqual([
+        ["Restart", "Debugger", "Restart the debug server"],
+        ["Restart", "ext-b", undefined],
+        ["Run Tests", "ext-b", undefined],
+      ]);
+      expect(options).toMatchObject({ matchOnDescription: true });
+    });
+
+    it("runs the selected action", async () => {
+      (vscode.commands.executeCommand as jest.Mock).mockResolvedValue(undefined);
+      await registerExtension("test-ext", {
+        actions: [{ label: "Restart", command: "test.restart", arguments: [2] }],
+      });
+      (vscode.window.showQuickPick as jest.Mock).mockImplementationOnce(
+        async (items: vscode.QuickPickItem[]) => items[0]
+      );
+
+      await getCommandCallback("mcp-acs.runAction")();
+
+      expect(vscode.commands.executeCommand).toHaveBeenCalledWith(
+        "test.restart",
+        2
+      );
+    });
+
+    it("asks for confirmation before running a destructive action", async () => {
+      (vscode.commands.executeCommand as jest.Mock).mockResolvedValue(undefined);
+      await registerExtension("test-ext", {
+        actions: [
+          {
+            label: "Reset Data",
+            command: "test.reset",
+            confirm: "Delete all cached data?",
+          },
+        ],
+      });
+      const showWarningMessage = vscode.window
+        .showWarningMessage as jest.Mock;
+      showWarningMessage.mockResolvedValueOnce(undefined);
+
+      await getCommandCallback("mcp-acs.runAction")("test-ext", "Reset Data");
+
+      expect(showWarningMessage).toHaveBeenCalledWith(
+        "Delete all cached data?",
+        { modal: true },
+        "Reset Data"
+      );
+      expect(vscode.commands.executeCommand).not.toHaveBeenCalledWith(
+        "test.reset"
+      );
+
+      showWarningMessage.mockResolvedValueOnce("Reset Data");
+      await getCommandCallback("mcp-acs.runAction")("test-ext", "Reset Data");
+
+      expect(vscode.commands.executeCommand).toHaveBeenCalledWith("test.reset");
+    });
+
+    it("links confirmed actions in the tooltip through mcp-acs.runAction", async () => {
+      await registerExtension("test-ext", {
+        actions: [
+          { label: "Reset", command: "test.reset", confirm: "Sure?" },
+        ],
+      });
+
+      const tooltip = getStatusBarItem()?.tooltip as vscode.MarkdownString;
+      const args = encodeURIComponent(JSON.stringify(["test-ext", "Reset"]));
+      expect(tooltip.value).toContain(
+        `[Reset](command:mcp-acs.runAction?${args})`
+      );
+      expect(tooltip.isTrusted).toEqual({
+        enabledCommands: ["mcp-acs.runAction"],
+      });
+    });
+
+    it("leaves out actions that are disabled in the current state", async () => {
+      await registerExtension("test-ext", {
+        status: "ok",
+        actions: [
+          {
+            label: "Start",
+            command: "test.start",
+            enabledWhen: { status: ["stopped"] },
+          },
+          {
+            label: "Cancel",
+            command: "test.cancel",
+            enabledWhen: { busy: true },
+          },
+          {
+            label: "Stop",
+            command: "test.stop",
+            enabledWhen: { status: ["ok"] },
+          },
+        ],
+      });
+
+      await getCommandCallback("mcp-acs.runAction")();
+
+      const items = (vscode.window.showQuickPick as jest.Mock).mock.calls[0][0];
+      expect(items.map((item: vscode.QuickPickItem) => item.label)).toEqual([
+        "Stop",
+      ]);
+      const tooltip = getStatusBarItem()?.tooltip as vscode.MarkdownString;
+      expect(tooltip.value).not.toContain("[Start]");
+      expect(tooltip.value).toContain("[Stop]");
+    });
+
+    it("does not run a disabled action", async () => {
+      await registerExtension("test-ext", {
+        status: "ok",
+        actions: [
+          {
+            label: "Start",
+            command: "test.start",
+            enabledWhen: { status: ["stopped"] },
+          },
+        ],
+      });
+
+      await getCommandCallback("mcp-acs.runAction")("test-ext", "Start");
+
+      expect(vscode.commands.executeCommand).not.toHaveBeenCalledWith(
+        "test.start"
+      );
+      expect(vscode.window.showInformationMessage).toHaveBeenCalledWith(
+        "Start: Not available while ok"
+      );
+    });
+
+    it("applies the status and message returned by an action", async () => {
+      await registerExtension("test-ext", {
+        status: "error",
+        statusMessage: "Disconnected",
+        actions: [{ label: "Reconnect", command: "test.reconnect" }],
+      });
+      (vscode.commands.executeCommand as jest.Mock).mockResolvedValueOnce({
+        status: "ok",
+        message: "Connected to server",
+        notify: "info",
+      });
+
+      await getCommandCallback("mcp-acs.runAction")("test-ext", "Reconnect");
+
+      expect(getDiagnosticInfo().extensions[0]).toMatchObject({
+        status: "ok",
+        statusMessage: "Connected to server",
+      });
+      expect(getStatusBarItem()?.text).toBe("$(layers) ACS");
+      expect(vscode.window.showInformationMessage).toHaveBeenCalledWith(
+        "Connected to server"
+      );
+    });
+
+    it("clears the old status message when a result has none", async () => {
+      await registerExtension("test-ext", {
+        status: "error",
+        statusMessage: "Disconnected",
+        actions: [{ label: "Reconnect", command: "test.reconnect" }],
+      });
+      (vscode.commands.executeCommand as jest.Mock).mockResolvedValueOnce({
+        status: "warning",
+      });
+
+      await getCommandCallback("mcp-acs.runAction")("test-ext", "Reconnect");
+
+      const [extension] = getDiagnosticInfo().extensions;
+      expect(extension.status).toBe("warning");
+      expect(extension.statusMessage).toBeUndefined();
+      expect(vscode.window.showInformationMessage).not.toHaveBeenCalled();
+    });
+
+    it("ignores an invalid status in an action result", async () => {
+      await registerExtension("test-ext", {
+        status: "error",
+        actions: [{ label: "Reconnect", command: "test.reconnect" }],
+      });
+      (vscode.commands.executeCommand as jest.Mock).mockResolvedValueOnce({
+        status: "great",
+        message: "Done",
+        notify: "error",
+      });
+
+      await getCommandCallback("mcp-acs.runAction")("test-ext", "Reconnect");
+
+      expect(getDiagnosticInfo().extensions[0].status).toBe("error");
+      expect(vscode.window.showErrorMessage).toHaveBeenCalledWith("Done");
+    });
+
+    it("ignores statuses inherited from Object in an action result", async () => {
+      await registerExtension("test-ext", {
+        status: "error",
+        actions: [{ label: "Reconnect", command: "test.reconnect" }],
+      });
+
+      for (const status of ["toString", "constructor", "__proto__"]) {
+        (vscode.commands.executeCommand as jest.Mock).mockResolvedValueOnce({
+          status,
+        });
+        await getCommandCallback("mcp-acs.runAction")("test-ext", "Reconnect");
+      }
+
+      expect(getDiagnosticInfo().extensions[0].status).toBe("error");
+      expect(getStatusBarItem()?.text).toBe("$(error) ACS 1✖");
+    });
+
+    describe("timeouts and cancellation", () => {
+      beforeEach(() => {
+        jest.useFakeTimers();
+      });
+
+      afterEach(() => {
+        jest.useRealTimers();
+      });
+
+      const runAction = async (action: Partial<ExtensionAction>) => {
+        await registerExtension("test-ext", {
+          actions: [{ label: "Build", command: "test.build", ...action }],
+        });
+        return getCommandCallback("mcp-acs.runAction")("test-ext", "Build");
+      };
+
+      const mockRunningBuild = () => {
+        let finish: (value?: unknown) => void = () => undefined;
+        (vscode.commands.executeCommand as jest.Mock).mockImplementation(
+          (command: string) =>
+            command === "test.build"
+              ? new Promise((resolve) => (finish = resolve))
+              : Promise.reject(new Error("Command not found"))
+        );
+        return (result?: unknown) => finish(result);
+      };
+
+      it("tells the user a timed out action is still running", async () => {
+        const consoleErrorSpy = jest
+          .spyOn(console, "error")
+          .mockImplementation();
+        const finish = mockRunningBuild();
+
+        const running = runAction({ timeoutMs: 5000 });
+        await jest.advanceTimersByTimeAsync(5000);
+        await running;
+
+        expect(vscode.window.showWarningMessage).toHaveBeenCalledWith(
+          'Action timed out: "Build" is still running after 5s'
+        );
+        expect(consoleErrorSpy).not.toHaveBeenCalled();
+        finish();
+        consoleErrorSpy.mockRestore();
+      });
+
+      it("waits indefinitely when the timeout is none", async () => {
+        const finish = mockRunningBuild();
+
+        let done = false;
+        const running = runAction({ timeoutMs: "none" }).then(
+          () => (done = true)
+        );
+        await jest.advanceTimersByTimeAsync(60000);
+        expect(done).toBe(false);
+
+        finish();
+        await running;
+        expect(vscode.window.showWarningMessage).not.toHaveBeenCalled();
+      });
+
+      it("reports real failures as failures", async () => {
+        const consoleErrorSpy = jest
+          .spyOn(console, "error")
+          .mockImplementation();
+
+        await runAction({});
+
+        expect(vscode.window.showWarningMessage).toHaveBeenCalledWith(
+          "Action failed: Command not found"
+        );
+        consoleErrorSpy.mockRestore();
+      });
+
+      it("applies the result of an action finishing after the timeout", async () => {
+        const finish = mockRunningBuild();
+
+        const running = runAction({ timeoutMs: 1000 });
+        await jest.advanceTimersByTimeAsync(1000);
+        await running;
+        finish({ status: "ok", message: "Built" });
+        await jest.advanceTimersByTimeAsync(0);
+
+        expect(getDiagnosticInfo().extensions[0]).toMatchObject({
+          status: "ok",
+          statusMessage: "Built",
+        });
+      });
+
+      it("passes a cancellation token to cancellable actions", async () => {
+        const source = new vscode.CancellationTokenSource();
+        (vscode.window.withProgress as jest.Mock).mockImplementationOnce(
+          (_options, task) => task({ report: jest.fn() }, source.token)
+        );
+        (vscode.commands.executeCommand as jest.Mock).mockImplementation(
+          (_command: string, _arg: unknown, token: vscode.CancellationToken) =>
+            new Promise((_, reject) =>
+              token.onCancellationRequested(() =>
+                reject(new Error("Canceled"))
+              )
+            )
+        );
+
+        const running = runAction({
+          cancellable: true,
+          arguments: ["all"],
+          timeoutMs: "none",
+        });
+        await jest.advanceTimersByTimeAsync(0);
+        expect(vscode.window.withProgress).toHaveBeenCalledWith(
+          {
+            location: vscode.ProgressLocation.Notification,
+            title: "Build",
+            cancellable: true,
+          },
+          expect.any(Function)
+        );
+        expect(vscode.commands.executeCommand).toHaveBeenCalledWith(
+          "test.build",
+          "all",
+          source.token
+        );
+
+        source.cancel();
+        await running;
+        expect(vscode.window.showWarningMessage).not.toHaveBeenCalled();
+      });
+    });
+
+    describe("action commands", () => {
+      const getRegisteredCommands = () =>
+        (vscode.commands.registerCommand as jest.Mock).mock.calls
+          .map((call) => call[0] as string)
+          .filter((command) => command.startsWith("mcp-acs.action."));
+
+      const getActionDisposable = (command: string) => {
+        const registerCommand = vscode.commands.registerCommand as jest.Mock;
+        const index = registerCommand.mock.calls.findIndex(
+          (call) => call[0] === command
+        );
+        return registerCommand.mock.results[index].value as vscode.Disposable;
+      };
+
+      it("registers a command for each action", async () => {
+        (vscode.commands.executeCommand as jest.Mock).mockResolvedValue(
+          undefined
+        );
+        await registerExtension("test-ext", {
+          actions: [
+            { label: "Restart Server", command: "test.restart", arguments: [1] },
+            { label: "Logs", command: "test.logs", id: "show-logs" },
+          ],
+        });
+
+        expect(getRegisteredCommands()).toEqual([
+          "mcp-acs.action.test-ext.restart-server",
+          "mcp-acs.action.test-ext.show-logs",
+        ]);
+
+        await getCommandCallback("mcp-acs.action.test-ext.restart-server")();
+        expect(vscode.commands.executeCommand).toHaveBeenCalledWith(
+          "test.restart",
+          1
+        );
+      });
+
+      it("syncs the commands when the actions change", async () => {
+        await registerExtension("test-ext", {
+          actions: [
+            { label: "Start", command: "test.start" },
+            { label: "Stop", command: "test.stop" },
+          ],
+        });
+        const start = getActionDisposable("mcp-acs.action.test-ext.start");
+        const stop = getActionDisposable("mcp-acs.action.test-ext.stop");
+
+        await updateExtension("test-ext", {
+          actions: [
+            { label: "Start", command: "test.start" },
+            { label: "Reset", command: "test.reset" },
+          ],
+        });
+
+        expect(start.dispose).not.toHaveBeenCalled();
+        expect(stop.dispose).toHaveBeenCalled();
+        expect(getRegisteredCommands()).toEqual([
+          "mcp-acs.action.test-ext.start",
+          "mcp-acs.action.test-ext.stop",
+          "mcp-acs.action.test-ext.reset",
+        ]);
+      });
+
+      it("gives labels without ASCII letters a command of their own", async () => {
+        (vscode.commands.executeCommand as jest.Mock).mockResolvedValue(
+          undefined
+        );
+        await registerExtension("test-ext", {
+          actions: [
+            { label: "重启", command: "test.restart" },
+            { label: "🔄", command: "test.reload" },
+          ],
+        });
+
+        const commands = getRegisteredCommands();
+        expect(commands).toHaveLength(2);
+        expect(new Set(commands).size).toBe(2);
+        for (const command of commands) {
+          expect(command).toMatch(/^mcp-acs\.action\.test-ext\.[a-z0-9]+$/);
+        }
+
+        await getCommandCallback(commands[1])();
+        expect(vscode.commands.executeCommand).toHaveBeenCalledWith(
+          "test.reload"
+        );
+      });
+
+      it("keeps the commands of colliding actions apart", async () => {
+        const channel = {
+          appendLine: jest.fn(),
+          show: jest.fn(),
+          dispose: jest.fn(),
+        };
+        setOutputChannel(channel as unknown as vscode.OutputChannel);
+        await registerExtension("test-ext", {
+          actions: [
+            { label: "Start!", command: "test.start-bang" },
+            { label: "Start", command: "test.start", id: "start" },
+            { label: "Start?", command: "test.start-question" },
+            { label: "Stop", command: "test.stop", id: "start" },
+          ],
+        });
+
+        const commands = getRegisteredCommands();
+        expect(commands).toHaveLength(3);
+        expect(commands).toContain("mcp-acs.action.test-ext.start");
+        expect(new Set(commands).size).toBe(3);
+        expect(channel.appendLine).toHaveBeenCalledWith(
+          expect.stringContaining(
+            'Action "Stop" has the same command as another action'
+          )
+        );
+      });
+
+      it("disposes the commands on unregister and dispose", async () => {
+        await registerExtension("ext-a", {
+          actions: [{ label: "Start", command: "a.start" }],
+        });
+        await registerExtension("ext-b", {
+          actions: [{ label: "Start", command: "b.start" }],
+        });
+        const startA = getActionDisposable("mcp-acs.action.ext-a.start");
+        const startB = getActionDisposable("mcp-acs.action.ext-b.start");
+
+        await unregisterExtension("ext-a");
+        expect(startA.dispose).toHaveBeenCalled();
+        expect(startB.dispose).not.toHaveBeenCalled();
+
+        dispose();
+        expect(startB.dispose).toHaveBeenCalled();
+      });
+    });
+
+    it("tells the user when there are no actions", async () => {
+      await registerExtension("test-ext");
+
+      await getCommandCallback("mcp-acs.runAction")();
+
+      expect(vscode.window.showQuickPick).not.toHaveBeenCalled();
+      expect(vscode.window.showInformationMessage).toHaveBeenCalledWith(
+        "No ACS extension has registered any actions."
+      );
+    });
+  });
+
+  describe("exportDiagnostics", () => {
+    it("opens a JSON snapshot in an untitled editor", async () => {
+      await registerExtension("test-ext", { displayName: "Test" });
+      getCommandCallback("mcp-acs.registerExtension")(
+        "remote-ext",
+        { displayName: "Remote" },
+        undefined,
+        "1.0.7"
+      );
+
+      const content = await exportDiagnostics();
+
+      expect(vscode.workspace.openTextDocument).toHaveBeenCalledWith({
+        content,
+        language: "json",
+      });
+      expect(vscode.window.showTextDocument).toHaveBeenCalled();
+      const snapshot: DiagnosticsSnapshot = JSON.parse(content!);
+      expect(snapshot.owner).toMatchObject({ isOwner: true });
+      expect(snapshot.summary.activeExtensionCount).toBe(2);
+      expect(snapshot.extensions).toHaveLength(2);
+      const local = snapshot.extensions.find((ext) => ext.id === "test-ext");
+      const remote = snapshot.extensions.find((ext) => ext.id === "remote-ext");
+      expect(local).toMatchObject({
+        libraryVersion: snapshot.owner.libraryVersion,
+        status: "ok",
+        metadata: { displayName: "Test" },
+      });
+      expect(local?.registeredAt).toEqual(expect.any(String));
+      expect(remote?.libraryVersion).toBe("1.0.7");
+      expect(snapshot.log.some((line) => line.includes("test-ext"))).toBe(true);
+    });
+
+    it("exports metadata with unserializable action arguments", async () => {
+      const circular: Record<string, unknown> = {};
+      circular.self = circular;
+      await registerExtension("test-ext", {
+        actions: [
+          { label: "Broken", command: "test.broken", arguments: [circular] },
+          { label: "Big", command: "test.big", arguments: [BigInt(1)] },
+          { label: "Restart", command: "test.restart", arguments: [1] },
+        ],
+      });
+
+      const snapshot: DiagnosticsSnapshot = JSON.parse(
+        (await exportDiagnostics())!
+      );
+
+      expect(snapshot.extensions[0].metadata.actions).toEqual([
+        {
+          label: "Broken",
+          command: "test.broken",
+          arguments: ["[unserializable]"],
+        },
+        { label: "Big", command: "test.big", arguments: ["[unserializable]"] },
+        { label: "Restart", command: "test.restart", arguments: [1] },
+      ]);
+      expect(await exportDiagnostics("text")).toContain("test.restart");
+    });
+
+    it("reports unknown library versions for older clients", async () => {
+      await registerExtension("test-ext");
+      getCommandCallback("mcp-acs.registerExtension")("old-ext");
+
+      const snapshot: DiagnosticsSnapshot = JSON.parse(
+        (await exportDiagnostics())!
+      );
+
+      expect(
+        snapshot.extensions.find((ext) => ext.id === "old-ext")?.libraryVersion
+      ).toBe("unknown");
+    });
+
+    it("includes the error history", async () => {
+      const consoleErrorSpy = jest
+        .spyOn(console, "error")
+        .mockImplementation();
+      (vscode.window.createStatusBarItem as jest.Mock).mockImplementationOnce(
+        () => {
+          throw new Error("Status bar creation failed");
+        }
+      );
+      await registerExtension("test-ext");
+      consoleErrorSpy.mockRestore();
+
+      const snapshot: DiagnosticsSnapshot = JSON.parse(
+        (await exportDiagnostics())!
+      );
+
+      expect(snapshot.summary.errors).toEqual([
+        expect.objectContaining({
+          operation: "Failed to create status bar item",
+          message: "Status bar creation failed",
+          stack: expect.stringContaining("Status bar creation failed"),
+        }),
+      ]);
+    });
+
+    it("formats markdown and text snapshots", async () => {
+      await registerExtension("test-ext", { displayName: "Test" });
+
+      const markdown = await exportDiagnostics("markdown");
+      expect(markdown).toContain("# ACS Shared Status Bar Diagnostics");
+      expect(markdown).toMatch(/\| test-ext \| ok \|/);
+      expect(vscode.workspace.openTextDocument).toHaveBeenLastCalledWith({
+        content: markdown,
+        language: "markdown",
+      });
+
+      const text = await exportDiagnostics("text");
+      expect(text).toContain("Extension Details:");
+      expect(text).toContain("- test-ext [ok]");
+      expect(vscode.workspace.openTextDocument).toHaveBeenLastCalledWith({
+        content: text,
+        language: "plaintext",
+      });
+    });
+
+    it("copies the snapshot to the clipboard", async () => {
+      await registerExtension("test-ext");
+
+      const content = await exportDiagnostics("text", "clipboard");
+
+      expect(vscode.env.clipboard.writeText).toHaveBeenCalledWith(content);
+      expect(vscode.workspace.openTextDocument).not.toHaveBeenCalled();
+      expect(vscode.window.showInformationMessage).toHaveBeenCalledWith(
+        "ACS diagnostics copied to the clipboard."
+      );
+    });
+
+    it("asks for the format and destination when run from the command", async () => {
+      await registerExtension("test-ext");
+      (vscode.window.showQuickPick as jest.Mock)
+        .mockImplementationOnce((items) => Promise.resolve(items[1]))
+        .mockImplementationOnce((items) => Promise.resolve(items[1]));
+
+      await getCommandCallback("mcp-acs.exportDiagnostics")();
+
+      expect(vscode.env.clipboard.writeText).toHaveBeenCalledWith(
+        expect.stringContaining("# ACS Shared Status Bar Diagnostics")
+      );
+    });
+
+    it("does nothing when the format prompt is dismissed", async () => {
+      await registerExtension("test-ext");
+
+      await getCommandCallback("mcp-acs.exportDiagnostics")();
+
+      expect(vscode.workspace.openTextDocument).not.toHaveBeenCalled();
+      expect(vscode.env.clipboard.writeText).not.toHaveBeenCalled();
+    });
+
+    it("asks the owner for its snapshot when another copy owns the status bar", async () => {
+      (vscode.commands.getCommands as jest.Mock).mockImplementation(() =>
+        Promise.resolve([
+          "mcp-acs.registerExtension",
+          "mcp-acs.exportDiagnostics",
+        ])
+      );
+      (vscode.commands.executeCommand as jest.Mock).mockImplementation(
+        (command: string) =>
+          command === "mcp-acs.exportDiagnostics"
+            ? Promise.resolve("owner snapshot")
+            : Promise.resolve()
+      );
+
+      const content = await exportDiagnostics("markdown", "clipboard");
+
+      expect(content).toBe("owner snapshot");
+      expect(vscode.commands.executeCommand).toHaveBeenCalledWith(
+        "mcp-acs.exportDiagnostics",
+        "markdown",
+        "clipboard"
+      );
+      expect(vscode.env.clipboard.writeText).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Logging", () => {
+    let settings: Record<string, unknown>;
+
+    const createChannel = () => ({
+      appendLine: jest.fn(),
+      show: jest.fn(),
+      dispose: jest.fn(),
+    });
+
+    const createLogChannel = () => ({
+      ...createChannel(),
+      logLevel: 1,
+      trace: jest.fn(),
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    });
+
+    beforeEach(() => {
+      settings = {};
+      (vscode.workspace.getConfiguration as jest.Mock).mockImplementation(
+        () => ({
+          get: (key: string, defaultValue?: unknown) =>
+            key in settings ? settings[key] : defaultValue,
+        })
+      );
+    });
+
+    afterEach(() => {
+      (vscode.workspace.getConfiguration as jest.Mock).mockImplementation(
+        () => ({
+          get: (key: string, defaultValue?: unknown) => defaultValue,
+        })
+      );
+    });
+
+    it("writes leveled lines with structured fields", async () => {
+      const channel = createChannel();
+      setOutputChannel(channel as unknown as vscode.OutputChannel);
+
+      await registerExtension("test-ext");
+
+      expect(channel.appendLine).toHaveBeenCalledWith(
+        expect.stringMatching(
+          /^\[\d{4}-\d{2}-\d{2}T[^\]]+\] \[info\] Extension registered: test-ext \(total: 1\) operation="registerExtension" extensionId="test-ext"$/
+        )
+      );
+      expect(channel.appendLine).toHaveBeenCalledWith(
+        expect.stringContaining("[debug] Command registered: mcp-acs.showMenu")
+      );
+    });
+
+    it("filters messages below mcpAcs.logLevel", async () => {
+      settings = { logLevel: "info" };
+      const channel = createChannel();
+      setOutputChannel(channel as unknown as vscode.OutputChannel);
+
+      await registerExtension("test-ext-1");
+      await registerExtension("test-ext-2");
+
+      const lines = channel.appendLine.mock.calls.map((call) => call[0]);
+      expect(lines.some((line) => line.includes("Reusing existing"))).toBe(
+        false
+      );
+      expect(lines.some((line) => line.includes("[debug]"))).toBe(false);
+      expect(lines).toContainEqual(
+        expect.stringContaining("[info] Extension registered: test-ext-2")
+      );
+    });
+
+    it("logs nothing when mcpAcs.logLevel is off", async () => {
+      settings = { logLevel: "off" };
+      const channel = createChannel();
+      setOutputChannel(channel as unknown as vscode.OutputChannel);
+
+      await registerExtension("test-ext");
+
+      expect(channel.appendLine).not.toHaveBeenCalled();
+    });
+
+    it("keeps errors off the console when mcpAcs.logLevel is off", async () => {
+      settings = { logLevel: "off" };
+      const consoleErrorSpy = jest
+        .spyOn(console, "error")
+        .mockImplementation();
+      (vscode.window.createStatusBarItem as jest.Mock).mockImplementationOnce(
+        () => {
+          throw new Error("Status bar creation failed");
+        }
+      );
+
+      await registerExtension("test-ext");
+
+      expect(consoleErrorSpy).not.toHaveBeenCalled();
+      consoleErrorSpy.mockRestore();
+    });
+
+    it("reads mcpAcs.logLevel once until it changes", async () => {
+      settings = { logLevel: "info" };
+      const channel = createChannel();
+      setOutputChannel(channel as unknown as vscode.OutputChannel);
+
+      await registerExtension("test-ext-1");
+      await registerExtension("test-ext-2");
+      const reads = (
+        vscode.workspace.getConfiguration as jest.Mock
+      ).mock.calls.filter(([section]) => section === "mcpAcs").length;
+      expect(reads).toBe(1);
+
+      settings = { logLevel: "debug" };
+      for (const [listener] of (
+        vscode.workspace.onDidChangeConfiguration as jest.Mock
+      ).mock.calls) {
+        listener({
+          affectsConfiguration: (section: string) =>
+            section === "mcpAcs.logLevel",
+        });
+      }
+      await registerExtension("test-ext-3");
+
+      expect(channel.appendLine).toHaveBeenCalledWith(
+        expect.stringContaining(
+          "[debug] Reusing existing status bar item (active extensions: 3)"
+        )
+      );
+    });
+
+    it("uses the level methods of a LogOutputChannel", async () => {
+      const channel = createLogChannel();
+      setOutputChannel(channel as unknown as vscode.OutputChannel);
+
+      await registerExtension("test-ext-1");
+      await registerExtension("test-ext-2");
+
+      expect(channel.appendLine).not.toHaveBeenCalled();
+      expect(channel.info).toHaveBeenCalledWith(
+        'Extension registered: test-ext-1 (total: 1) operation="registerExtension" extensionId="test-ext-1"'
+      );
+      expect(channel.debug).toHaveBeenCalledWith(
+        "Reusing existing status bar item (active extensions: 2)"
+      );
+      // VS Code filters by the channel's level, so nothing is held back
+      expect(channel.trace).toHaveBeenCalledWith(
+        "Status bar shown successfully"
+      );
+    });
+
+    it("writes errors with their stack to a LogOutputChannel", async () => {
+      const consoleErrorSpy = jest
+        .spyOn(console, "error")
+        .mockImplementation();
+      const channel = createLogChannel();
+      setOutputChannel(channel as unknown as vscode.OutputChannel);
+      (vscode.window.createStatusBarItem as jest.Mock).mockImplementationOnce(
+        () => {
+          throw new Error("Status bar creation failed");
+        }
+      );
+
+      await registerExtension("test-ext");
+
+      expect(channel.error).toHaveBeenCalledWith(
+        expect.stringMatching(
+          /^Failed to create status bar item: Status bar creation failed\nError: Status bar creation failed/
+        )
+      );
+      expect(consoleErrorSpy).toHaveBeenCalled();
+      consoleErrorSpy.mockRestore();
+    });
+
+    it("only writes warnings to the console by default", async () => {
+      const consoleLogSpy = jest.spyOn(console, "log").mockImplementation();
+      const consoleWarnSpy = jest.spyOn(console, "warn").mockImplementation();
+
+      await registerExtension("test-ext");
+      await updateExtension("other-ext", { status: "ok" });
+
+      expect(consoleLogSpy).not.toHaveBeenCalled();
+      expect(consoleWarnSpy).toHaveBeenCalledWith(
+        expect.stringContaining(
+          '[warn] Extension not registered, ignoring update: other-ext operation="updateExtension" extensionId="other-ext"'
+        )
+      );
+      consoleLogSpy.mockRestore();
+      consoleWarnSpy.mockRestore();
+    });
+
+    it("writes to the console at the configured level", async () => {
+      settings = { logLevel: "info" };
+      const consoleLogSpy = jest.spyOn(console, "log").mockImplementation();
+
+      await registerExtension("test-ext");
+
+      expect(consoleLogSpy).toHaveBeenCalledWith(
+        expect.stringContaining("[info] Extension registered: test-ext")
+      );
+      expect(consoleLogSpy).not.toHaveBeenCalledWith(
+        expect.stringContaining("[debug]")
+      );
+      consoleLogSpy.mockRestore();
+    });
+
+    it("records how long actions take", async () => {
+      const channel = createChannel();
+      setOutputChannel(channel as unknown as vscode.OutputChannel);
+      (vscode.commands.executeCommand as jest.Mock).mockResolvedValueOnce(
+        undefined
+      );
+      await registerExtension("test-ext", {
+        actions: [{ label: "Restart", command: "test.restart" }],
+      });
+      const runAction = getCommandCallback("mcp-acs.runAction");
+
+      await runAction("test-ext", "Restart");
+
+      expect(channel.appendLine).toHaveBeenCalledWith(
+        expect.stringMatching(
+          /\[info\] Action command completed: test\.restart operation="runAction" extensionId="test-ext" durationMs=\d+$/
+        )
+      );
+    });
+  });
+
+  describe("Per-extension output channels", () => {
+    const createChannel = (name: string) => ({
+      name,
+      appendLine: jest.fn(),
+      show: jest.fn(),
+      dispose: jest.fn(),
+    });
+
+    const lines = (channel: ReturnType<typeof createChannel>) =>
+      channel.appendLine.mock.calls.map((call) => call[0] as string);
+
+    it("routes messages about an extension to its own channel", async () => {
+      const shared = createChannel("Shared");
+      const own = createChannel("Own");
+      setOutputChannel(shared as unknown as vscode.OutputChannel);
+
+      await registerExtension("test-ext", {
+        outputChannel: own as unknown as vscode.OutputChannel,
+      });
+      await registerExtension("other-ext");
+
+      expect(lines(own)).toContainEqual(
+        expect.stringContaining("Extension registered: test-ext")
+      );
+      expect(
+        lines(shared).some((line) => line.includes("test-ext"))
+      ).toBe(false);
+      // Shared events and extensions without a channel use the shared one
+      expect(lines(shared)).toContainEqual(
+        expect.stringContaining("Creating status bar item")
+      );
+      expect(lines(shared)).toContainEqual(
+        expect.stringContaining("Extension registered: other-ext")
+      );
+      expect(
+        lines(own).some((line) => line.includes("other-ext"))
+      ).toBe(false);
+    });
+
+    it("accepts channels from other copies of the library", async () => {
+      const own = createChannel("Own");
+      await registerExtension("test-ext");
+      const registerCommand = getCommandCallback("mcp-acs.registerExtension");
+
+      registerCommand(
+        "remote-ext",
+        { outputChannel: own },
+        undefined,
+        "1.0.25"
+      );
+
+      expect(lines(own)).toContainEqual(
+        expect.stringContaining("Extension registered: remote-ext")
+      );
+    });
+
+    it("uses the shared channel for channels from another extension host", async () => {
+      const shared = createChannel("Shared");
+      setOutputChannel(shared as unknown as vscode.OutputChannel);
+      await registerExtension("test-ext");
+      const registerCommand = getCommandCallback("mcp-acs.registerExtension");
+
+      // Only the data of the channel survives the trip between hosts
+      registerCommand(
+        "remote-ext",
+        { outputChannel: { name: "Remote" } },
+        undefined,
+        "1.0.25"
+      );
+
+      expect(lines(shared)).toContainEqual(
+        expect.stringContaining("Extension registered: remote-ext")
+      );
+
+      await getCommandCallback("mcp-acs.showMenu")();
+      const menu = getMenu();
+      await menu.accept(menu.items.find((item) => item.label === "remote-ext")!);
+      const item = menu.items.find(
+        (item) => item.label === "$(output) Show Logs"
+      )!;
+      expect(item.description).toBe("Shared");
+
+      await menu.accept(item);
+      expect(shared.show).toHaveBeenCalled();
+    });
+
+    it("sets an extension's channel with setOutputChannel", async () => {
+      const shared = createChannel("Shared");
+      const own = createChannel("Own");
+      setOutputChannel(shared as unknown as vscode.OutputChannel);
+      await registerExtension("test-ext");
+
+      setOutputChannel(own as unknown as vscode.OutputChannel, "test-ext");
+      await new Promise((resolve) => setImmediate(resolve));
+      await updateExtension("test-ext", { status: "warning" });
+
+      expect(lines(own)).toContainEqual(
+        expect.stringContaining("Extension updated: test-ext (fields: status)")
+      );
+      // Does not replace the shared channel
+      await registerExtension("other-ext");
+      expect(lines(shared)).toContainEqual(
+        expect.stringContaining("Extension registered: other-ext")
+      );
+    });
+
+    it("sends channels set before registration on registration", async () => {
+      const own = createChannel("Own");
+
+      setOutputChannel(own as unknown as vscode.OutputChannel, "test-ext");
+      expect(own.appendLine).not.toHaveBeenCalled();
+      await registerExtension("test-ext");
+
+      expect(lines(own)).toContainEqual(
+        expect.stringContaining("Extension registered: test-ext")
+      );
+    });
+
+    it("exports the channel name instead of the channel", async () => {
+      const own = createChannel("Own");
+      await registerExtension("test-ext", {
+        displayName: "Test",
+        outputChannel: own as unknown as vscode.OutputChannel,
+      });
+
+      const snapshot: DiagnosticsSnapshot = JSON.parse(
+        (await exportDiagnostics())!
+      );
+
+      expect(snapshot.extensions[0]).toMatchObject({
+        outputChannel: "Own",
+        metadata: { displayName: "Test" },
+      });
+      expect(snapshot.extensions[0].metadata).not.toHaveProperty(
+        "outputChannel"
+      );
+    });
+  });
+
+  describe("Error history", () => {
+    const failingAction = { label: "Restart", command: "test.restart" };
+    let consoleErrorSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+      consoleErrorSpy = jest.spyOn(console, "error").mockImplementation();
+    });
+
+    afterEach(() => {
+      consoleErrorSpy.mockRestore();
+    });
+
+    it("keeps structured records of failures", async () => {
+      await registerExtension("test-ext", { actions: [failingAction] });
+
+      await getCommandCallback("mcp-acs.runAction")("test-ext", "Restart");
+
+      const { errors, lastError } = getDiagnosticInfo();
+      expect(errors).toHaveLength(1);
+      expect(errors[0]).toEqual({
+        timestamp: expect.any(String),
+        operation: "Action command failed (test.restart)",
+        extensionId: "test-ext",
+        message: "Command not found",
+        stack: expect.stringContaining("Command not found"),
+      });
+      expect(lastError).toBe(
+        "Action command failed (test.restart): Command not found"
+      );
+    });
+
+    it("keeps earlier failures when later ones occur", async () => {
+      await registerExtension("test-ext", { actions: [failingAction] });
+      (vscode.commands.executeCommand as jest.Mock).mockImplementationOnce(
+        () => Promise.reject(new Error("First failure"))
+      );
+
+      await getCommandCallback("mcp-acs.runAction")("test-ext", "Restart");
+      await getCommandCallback("mcp-acs.runAction")("test-ext", "Restart");
+
+      expect(getDiagnosticInfo().errors.map((e) => e.message)).toEqual([
+        "First failure",
+        "Command not found",
+      ]);
+    });
+
+    it("drops the oldest errors when full", async () => {
+      await registerExtension("test-ext", { actions: [failingAction] });
+      for (let i = 0; i < 55; i++) {
+        (vscode.commands.executeCommand as jest.Mock).mockImplementationOnce(
+          () => Promise.reject(new Error(`Failure ${i}`))
+        );
+        await getCommandCallback("mcp-acs.runAction")("test-ext", "Restart");
+      }
+
+      const { errors } = getDiagnosticInfo();
+      expect(errors).toHaveLength(50);
+      expect(errors[0].message).toBe("Failure 5");
+      expect(errors[49].message).toBe("Failure 54");
+    });
+
+    it("lists the errors in the diagnostics output", async () => {
+      const channel = { appendLine: jest.fn(), show: jest.fn() };
+      await registerExtension("test-ext", { actions: [failingAction] });
+      setOutputChannel(channel as unknown as vscode.OutputChannel);
+      await getCommandCallback("mcp-acs.runAction")("test-ext", "Restart");
+
+      await getCommandCallback("mcp-acs.diagnostics")();
+
+      const output = channel.appendLine.mock.calls
+        .map((call) => call[0])
+        .join("\n");
+      expect(output).toContain("Errors (1):");
+      expect(output).toMatch(
+        /  - \[.+\] Action command failed \(test\.restart\) \(test-ext\): Command not found/
+      );
+    });
+
+    it("clears the errors with mcp-acs.clearErrors", async () => {
+      await registerExtension("test-ext", { actions: [failingAction] });
+      await getCommandCallback("mcp-acs.runAction")("test-ext", "Restart");
+
+      getCommandCallback("mcp-acs.clearErrors")();
+
+      expect(getDiagnosticInfo().errors).toEqual([]);
+      expect(getDiagnosticInfo().lastError).toBeNull();
+      expect(vscode.window.showInformationMessage).toHaveBeenCalledWith(
+        "Cleared 1 ACS error(s)."
+      );
+    });
+  });
+
   describe("Error Handling", () => {
     let consoleErrorSpy: jest.SpyInstance;
 
@@ -203,9 +3311,9 @@ describe("Shared Status Bar", () => {
     });
 
     it("handles quick pick display failure gracefully", async () => {
-      // Mock showQuickPick to throw an error
-      const originalShowQuickPick = vscode.window.showQuickPick;
-      (vscode.window.showQuickPick as any) = jest.fn(() => {
+      // Mock createQuickPick to throw an error
+      const originalCreateQuickPick = vscode.window.createQuickPick;
+      (vscode.window.createQuickPick as any) = jest.fn(() => {
         throw new Error("Quick pick failed");
       });
 
@@ -230,7 +3338,7 @@ describe("Shared Status Bar", () => {
       );
 
       // Restore original mock
-      vscode.window.showQuickPick = originalShowQuickPick;
+      vscode.window.createQuickPick = originalCreateQuickPick;
     });
 
     it("handles command disposal errors gracefully", async () => {
@@ -559,7 +3667,7 @@ describe("Shared Status Bar", () => {
       // 4. Verify status bar is still functional
       expect(getStatusBarItem()).toBeDefined();
       expect(getStatusBarItem()?.text).toBe("$(layers) ACS");
-      expect(getStatusBarItem()?.tooltip).toBe("ACS Extensions (3 active)");
+      expect(getTooltipHeading(getStatusBarItem())).toBe("ACS Extensions (3 active)");
 
       // 5. Unregister all extensions
       await unregisterExtension("test-ext-1");
@@ -29,843 +29,5237 @@ let statusBarItem: vscode.StatusBarItem | undefined;
 export interface ExtensionAction {
   label: string;
   command: string;
+  /**
+   * Stable ID of the action, used in its command
+   * mcp-acs.action.<extensionId>.<id> (defaults to the label in kebab case)
+   */
+  id?: string;
   description?: string;
   arguments?: any[];
+  /** Also show the action as a button on the extension's row of the menu */
+  inline?: boolean;
+  /** Codicon of the inline button, e.g. "debug-restart" (defaults to "play") */
+  icon?: string;
+  /** Condition under which the action can be run (always when omitted) */
+  enabledWhen?: ActionCondition;
+  /** Modal confirmation message shown before running a destructive action */
+  confirm?: string;
+  /**
+   * How long to wait for the command before telling the user it is still
+   * running, or "none" to wait indefinitely (defaults to 10 seconds)
+   */
+  timeoutMs?: number | "none";
+  /**
+   * Run the action under a progress notification with a cancel button.
+   * A CancellationToken is passed to the command after its arguments.
+   */
+  cancellable?: boolean;
+}
+
+/**
+ * Condition under which an action can be run, evaluated against the
+ * extension's current state. Every field that is set must match.
+ */
+export interface ActionCondition {
+  /** Statuses in which the action is enabled, e.g. ["stopped", "error"] */
+  status?: DisplayStatus[];
+  /** true: only while an operation is running, false: only while none is */
+  busy?: boolean;
+}
+
+/**
+ * Result an action command may return to update the status bar.
+ *
+ * The owner applies the status and message to the extension's metadata in
+ * one update, so an action like "Reconnect" can change the indicator
+ * atomically.
+ */
+export interface ActionResult {
+  /** New status of the extension */
+  status?: ExtensionStatus;
+  /** New status message; also the text of the notification */
+  message?: string;
+  /** Show the message as a notification of this severity */
+  notify?: "info" | "warning" | "error";
+}
+
+/**
+ * State of an extension that action conditions are evaluated against.
+ */
+interface ActionContext {
+  status: DisplayStatus;
+  busy: boolean;
 }
 
 export interface ExtensionMetadata {
   displayName?: string;
-  status?: "ok" | "warning" | "error";
+  status?:
+    | "ok"
+    | "warning"
+    | "error"
+    | "starting"
+    | "busy"
+    | "stopped"
+    | "disabled";
+  /** Optional human-readable explanation of the current status */
+  statusMessage?: string;
+  /** Optional detail line shown next to the extension in the tooltip */
+  detail?: string;
   actions?: ExtensionAction[];
   settingsQuery?: string;
+  /** Optional category the extension is listed under in the menu, e.g. "Debugging" */
+  group?: string;
+  /**
+   * Optional position of the group in the menu. Groups with a lower order
+   * come first; groups without an order follow in alphabetical order. When
+   * extensions of one group disagree, the lowest order wins.
+   */
+  groupOrder?: number;
+  /**
+   * Optional output channel that receives the log messages about this
+   * extension, and that its "Show Logs" menu item opens. Messages about the
+   * status bar itself still go to the owner's channel.
+   */
+  outputChannel?: vscode.OutputChannel;
 }
 
 /**
- * Map of active extension IDs to their metadata.
- * Using a Map ensures automatic deduplication of extension IDs,
- * making registration operations naturally idempotent.
+ * Health status an extension can report.
  */
-const activeExtensions = new Map<string, ExtensionMetadata>();
+export type ExtensionStatus = NonNullable<ExtensionMetadata["status"]>;
 
 /**
- * Disposable for the show menu command.
- * Created when the first extension registers, disposed when the last unregisters.
+ * Status shown for an extension. In addition to the statuses extensions
+ * report themselves, the owner marks extensions that stopped sending
+ * heartbeats as "not responding".
  */
-let commandDisposable: vscode.Disposable | undefined;
+export type DisplayStatus = ExtensionStatus | "not responding";
 
 /**
- * Disposable for the register extension command.
- * Created when this extension becomes the owner of the status bar.
+ * Severity of each status, used to pick the worst status across all extensions
+ * and to sort extensions (highest severity first).
+ * Extensions without a status are treated as "ok". Stopped and disabled
+ * extensions are intentional states, so they rank below "ok" and never
+ * change the status bar item.
  */
-let registerCommandDisposable: vscode.Disposable | undefined;
+const STATUS_SEVERITY: Record<DisplayStatus, number> = {
+  disabled: 0,
+  stopped: 1,
+  ok: 2,
+  busy: 3,
+  starting: 4,
+  warning: 5,
+  "not responding": 6,
+  error: 7,
+};
 
 /**
- * Disposable for the unregister extension command.
- * Created when this extension becomes the owner of the status bar.
+ * Codicon rendered for each status in the status bar, menu and tooltip.
  */
-let unregisterCommandDisposable: vscode.Disposable | undefined;
+const STATUS_ICONS: Record<DisplayStatus, string> = {
+  ok: "$(pass)",
+  warning: "$(warning)",
+  error: "$(error)",
+  starting: "$(loading~spin)",
+  busy: "$(sync~spin)",
+  stopped: "$(debug-stop)",
+  disabled: "$(circle-slash)",
+  "not responding": "$(debug-disconnect)",
+};
 
 /**
- * Disposable for the diagnostic command.
- * Created when output channel is set, disposed during cleanup.
+ * Progress update for a long-running extension operation.
  */
-let diagnosticCommandDisposable: vscode.Disposable | undefined;
+export interface ProgressReport {
+  /** Message describing the current step */
+  message?: string;
+  /** Work done since the last report, in units of `total` */
+  increment?: number;
+  /** Total amount of work (defaults to 100) */
+  total?: number;
+  /** Set to true when the operation has finished */
+  done?: boolean;
+}
 
 /**
- * Output channel for logging.
- * Optional - if not set, logs only go to console.
+ * Accumulated progress of a running operation, as tracked by the owner.
  */
-let outputChannel: vscode.OutputChannel | undefined;
+interface ProgressState {
+  message?: string;
+  worked: number;
+  total: number;
+  /** False until the first increment is reported */
+  determinate: boolean;
+}
 
 /**
- * Last error that occurred.
- * Used for diagnostic reporting and troubleshooting.
+ * Map of extension IDs to the progress of their running operation.
+ * Entries are removed when the operation completes or the extension unregisters.
  */
-let lastError: string | null = null;
+const activeProgress = new Map<string, ProgressState>();
 
 /**
- * Logs an informational message with timestamp.
- *
- * Messages are logged to both the output channel (if configured) and the console.
- * Each message is prefixed with an ISO timestamp for debugging.
- *
- * @param message - The message to log
- * @internal
+ * Options of an error reported by an extension.
  */
-function log(message: string): void {
-  const timestamp = new Date().toISOString();
-  const logMessage = `[${timestamp}] ${message}`;
-
-  if (outputChannel) {
-    outputChannel.appendLine(logMessage);
-  }
-  // console.log(logMessage);
+export interface ReportErrorOptions {
+  /** "error" (default) shows the extension as failing, "warning" as degraded */
+  severity?: "warning" | "error";
+  /**
+   * Suggested fix shown with the error, e.g. "Restart Server". When it is the
+   * label of one of the extension's actions, selecting the error in the menu
+   * runs that action.
+   */
+  actionHint?: string;
 }
 
 /**
- * Logs an error message with full details including stack trace.
- *
- * Errors are logged to both the output channel (if configured) and the console.
- * The error is also stored in `lastError` for diagnostic reporting.
- *
- * @param message - Descriptive message about the error context
- * @param error - The error object or value that was thrown
- * @internal
+ * Error reported by an extension, as tracked by the owner.
  */
-function logError(message: string, error: unknown): void {
-  const timestamp = new Date().toISOString();
-  const errorMessage = error instanceof Error ? error.message : String(error);
-  const errorStack = error instanceof Error ? error.stack : undefined;
-  const logMessage = `[${timestamp}] ERROR: ${message}: ${errorMessage}${
-    errorStack ? "\n" + errorStack : ""
-  }`;
-
-  lastError = `${message}: ${errorMessage}`;
-
-  if (outputChannel) {
-    outputChannel.appendLine(logMessage);
-  }
-
-  // Log to console in the format expected by tests
-  console.error(message, error);
+export interface ReportedError {
+  /** When the error was reported (ms since epoch) */
+  timestamp: number;
+  severity: "warning" | "error";
+  message: string;
+  stack?: string;
+  actionHint?: string;
 }
 
 /**
- * Sets the output channel for logging.
- *
- * Once configured, all log messages will be written to this output channel
- * in addition to the console. This also registers the diagnostic command
- * (mcp-acs.diagnostics) for troubleshooting.
- *
- * This function is idempotent - calling it multiple times will only use
- * the first output channel provided.
- *
- * @param channel - VSCode output channel to use for logging
- *
- * @example
- * ```typescript
- * const outputChannel = vscode.window.createOutputChannel("MCP ACS");
- * setOutputChannel(outputChannel);
- * ```
+ * Map of extension IDs to the errors they reported, oldest first.
+ * Entries are removed when the user clears them or the extension unregisters.
  */
-export function setOutputChannel(channel: vscode.OutputChannel): void {
-  // Only set output channel once (first extension wins)
-  if (outputChannel) {
-    log("Output channel already configured, ignoring duplicate call");
-    return;
-  }
+const reportedErrors = new Map<string, ReportedError[]>();
 
-  outputChannel = channel;
-  log("Output channel configured for shared status bar");
+/**
+ * Number of reported errors kept per extension.
+ */
+const REPORTED_ERRORS_LIMIT = 20;
 
-  // Only register diagnostic command if we are the owner (have registered the registration command)
-  if (registerCommandDisposable) {
-    registerDiagnosticCommand();
-  }
+/**
+ * Options for the heartbeat a registered extension sends to the owner.
+ */
+export interface HeartbeatOptions {
+  /** How often to send a heartbeat (defaults to 10 seconds) */
+  intervalMs?: number;
+  /**
+   * Time without heartbeat after which the extension is shown as
+   * not responding (defaults to 3 intervals)
+   */
+  staleAfterMs?: number;
+  /**
+   * Time without heartbeat after which the extension is unregistered
+   * (defaults to 30 intervals)
+   */
+  evictAfterMs?: number;
 }
 
 /**
- * Registers the diagnostic command if not already registered.
- * This should only be called by the status bar owner.
+ * Last heartbeat received from an extension, as tracked by the owner.
  */
-function registerDiagnosticCommand(): void {
-  if (diagnosticCommandDisposable) {
-    return;
-  }
-  try {
-    diagnosticCommandDisposable = vscode.commands.registerCommand(
-      "mcp-acs.diagnostics",
-      showDiagnostics
-    );
-    log("Diagnostic command registered: mcp-acs.diagnostics");
-  } catch (error) {
-    logError("Failed to register mcp-acs.diagnostics command:", error);
-  }
+interface HeartbeatState {
+  lastSeen: number;
+  staleAfterMs: number;
+  evictAfterMs: number;
 }
 
+const DEFAULT_HEARTBEAT_INTERVAL_MS = 10000;
+
 /**
- * Registers an extension with the shared status bar.
- *
- * This function is idempotent - calling it multiple times with the same extension ID
- * has no additional effect. The Set data structure automatically handles deduplication.
- *
- * When the first extension registers:
- * - The show menu command (mcp-acs.showMenu) is registered
- * - The status bar item is created and shown
- *
- * When subsequent extensions register:
- * - The extension count is incremented
- * - The status bar tooltip is updated to reflect the new count
- * - The existing status bar item is reused (singleton pattern)
- *
- * @param extensionId - Unique identifier for the extension (e.g., "mcp-debugger")
- *
- * @example
- * ```typescript
- * export async function activate(context: vscode.ExtensionContext) {
- *   await registerExtension("my-extension-id");
- *   context.subscriptions.push({
- *     dispose: () => unregisterExtension("my-extension-id")
- *   });
- * }
- * ```
+ * How often the owner checks for missed heartbeats.
  */
-export async function registerExtension(
-  extensionId: string,
-  metadata?: ExtensionMetadata
-): Promise<void> {
-  // Try to register with an existing owner first.
-  // We must check that the command exists before calling executeCommand because
-  // in VS Code remote environments (dev containers, SSH, WSL) executeCommand
-  // for an unregistered command can hang indefinitely while VS Code waits for
-  // an extension that might provide it to finish activating.
-  try {
-    // getCommands can also hang in remote environments — race with a timeout
-    const commandsPromise = vscode.commands.getCommands(true);
-    const timeoutPromise = new Promise<string[]>((_, reject) =>
-      setTimeout(() => reject(new Error('getCommands timeout')), 3000)
-    );
-    const allCommands = await Promise.race([commandsPromise, timeoutPromise]);
-    if (allCommands.includes("mcp-acs.registerExtension")) {
-      // Verify the owner is actually responsive before delegating.
-      // Race the executeCommand with a timeout to detect stale/hung owners.
-      const execPromise = vscode.commands.executeCommand(
-        "mcp-acs.registerExtension",
-        extensionId,
-        metadata
-      );
-      const execTimeout = new Promise<void>((_, reject) =>
-        setTimeout(() => reject(new Error('registerExtension command timeout')), 3000)
-      );
-      await Promise.race([execPromise, execTimeout]);
-      log(`Registered ${extensionId} with existing status bar owner`);
-      return;
-    } else {
-      log(
-        `No existing status bar owner found, attempting to become owner for ${extensionId}`
-      );
-    }
-  } catch (error) {
-    // Command lookup or execution failed/timed out - we will attempt to become the owner
-    log(
-      `No existing status bar owner found (or command failed/timed out), attempting to become owner for ${extensionId}`
-    );
-  }
+const HEARTBEAT_CHECK_INTERVAL_MS = 1000;
 
-  // We are the owner (or the first one)
-  // Try to acquire the lock by registering the registration command
-  if (!registerCommandDisposable) {
-    try {
-      registerCommandDisposable = vscode.commands.registerCommand(
-        "mcp-acs.registerExtension",
-        (id: string, meta?: ExtensionMetadata) => {
-          log(`Received registration request from: ${id}`);
-          internalRegister(id, meta);
-        }
-      );
-      log("Command registered: mcp-acs.registerExtension");
+/**
+ * Map of extension IDs to their last heartbeat.
+ * Only extensions that opted into heartbeats are tracked, so extensions that
+ * never send one are never marked as not responding.
+ */
+const heartbeats = new Map<string, HeartbeatState>();
 
-      // We successfully registered the command, so we are the owner.
-      // Now we can register ourselves.
-      internalRegister(extensionId, metadata);
+/**
+ * Extensions that missed their heartbeat and are shown as not responding.
+ */
+const staleExtensions = new Set<string>();
 
-      // Register the unregistration command so others can unregister with us
-      if (!unregisterCommandDisposable) {
-        try {
-          unregisterCommandDisposable = vscode.commands.registerCommand(
-            "mcp-acs.unregisterExtension",
-            (id: string) => {
-              log(`Received unregistration request from: ${id}`);
-              internalUnregister(id);
-            }
-          );
-          log("Command registered: mcp-acs.unregisterExtension");
-        } catch (error) {
-          logError(
-            "Failed to register mcp-acs.unregisterExtension command:",
-            error
-          );
-        }
-      }
-    } catch (error) {
-      logError("Failed to register mcp-acs.registerExtension command:", error);
-      // If we failed to register, maybe someone else just did?
-      // Try to register with them again?
-      try {
-        const commandsPromise2 = vscode.commands.getCommands(true);
-        const timeoutPromise2 = new Promise<string[]>((_, reject) =>
-          setTimeout(() => reject(new Error('getCommands timeout')), 3000)
-        );
-        const allCommands = await Promise.race([commandsPromise2, timeoutPromise2]);
-        if (allCommands.includes("mcp-acs.registerExtension")) {
-          await vscode.commands.executeCommand(
-            "mcp-acs.registerExtension",
-            extensionId,
-            metadata
-          );
-          log(`Registered ${extensionId} with new status bar owner`);
-          return;
-        }
-        // Command still doesn't exist — fall through to local registration
-        internalRegister(extensionId, metadata);
-      } catch (e) {
-        logError("Failed to register with new owner after losing race:", e);
-        // Fallback: Register locally anyway so at least WE work
-        internalRegister(extensionId, metadata);
-      }
-    }
-  } else {
-    // We are already the owner
-    internalRegister(extensionId, metadata);
-  }
+/**
+ * Timer checking for missed heartbeats.
+ * Runs on the owner while at least one extension sends heartbeats.
+ */
+let heartbeatCheckTimer: ReturnType<typeof setInterval> | undefined;
+
+/**
+ * State handed from the status bar owner to its successor.
+ */
+interface OwnershipSnapshot {
+  extensions: Array<[string, ExtensionMetadata]>;
+  successors: Array<[string, string]>;
+  progress: Array<[string, ProgressState]>;
+  /** Missing in snapshots from older copies of the library */
+  records?: Array<[string, ExtensionRecord]>;
+  /** Missing in snapshots from older copies of the library */
+  reportedErrors?: Array<[string, ReportedError[]]>;
+  /** Missing in snapshots from older copies of the library */
+  heartbeats?: Array<[string, HeartbeatState]>;
 }
 
 /**
- * Ensures the mcp-acs.showMenu command is registered and wired to the status bar.
- *
- * This function handles the case where a previous registration attempt failed
- * (e.g., stale command from a crashed extension host) by detecting the failure
- * and always assigning the command string to the status bar item. VS Code will
- * route the click to whichever extension currently owns the command registration.
- *
- * @internal
+ * Bookkeeping the owner keeps about each registered extension for diagnostics.
  */
-function ensureShowMenuCommand(): void {
-  if (!commandDisposable) {
-    try {
-      commandDisposable = vscode.commands.registerCommand(
-        "mcp-acs.showMenu",
-        showMenuCommand
-      );
-      log("Command registered: mcp-acs.showMenu");
-    } catch (error) {
-      // Command already registered by another module instance — this is expected
-      // when multiple extensions bundle their own copy of the shared status bar.
-      // We still set statusBarItem.command below so clicks route to the owner.
-      log(
-        `mcp-acs.showMenu already registered by another instance, will delegate clicks to existing owner`
-      );
-    }
-  }
-  // Always assign the command to the status bar item, even if we didn't register it.
-  // VS Code routes the click to whichever extension owns the command registration.
-  if (statusBarItem) {
-    statusBarItem.command = "mcp-acs.showMenu";
-  }
+interface ExtensionRecord {
+  /** Library version of the copy that registered the extension, if it sent one */
+  libraryVersion?: string;
+  /** When the extension registered (ms since epoch) */
+  registeredAt: number;
+  /** When the extension last registered or updated its metadata */
+  updatedAt: number;
 }
 
-function internalRegister(
-  extensionId: string,
-  metadata?: ExtensionMetadata
-): void {
-  const wasEmpty = activeExtensions.size === 0;
-  const previousSize = activeExtensions.size;
+/**
+ * Diagnostic bookkeeping of each registered extension, keyed by extension ID.
+ */
+const extensionRecords = new Map<string, ExtensionRecord>();
 
-  // Add to Map - automatically handles deduplication (idempotent operation)
-  activeExtensions.set(extensionId, metadata || {});
+/**
+ * Unique ID of this copy of the library, used to address it as a successor.
+ */
+const instanceId = `${Date.now().toString(36)}-${Math.random()
+  .toString(36)
+  .slice(2, 8)}`;
 
-  // Check if this was a new registration or a duplicate
-  const countChanged = activeExtensions.size !== previousSize;
+/**
+ * Map of extension IDs to the successor command of the library copy that
+ * registered them. The owner hands its state to one of these when it goes away.
+ */
+const successors = new Map<string, string>();
 
-  if (countChanged) {
-    log(
-      `Extension registered: ${extensionId} (total: ${activeExtensions.size})`
-    );
-  } else {
-    // Duplicate registration - log but don't update status bar
-    log(
-      `Extension already registered: ${extensionId} (duplicate registration ignored)`
-    );
-  }
+/**
+ * Extensions registered through this copy of the library, as opposed to
+ * extensions registered with this copy by other copies via commands.
+ * Holds the full metadata so it can be re-sent to owners that do not
+ * support partial updates.
+ */
+const localExtensions = new Map<string, ExtensionMetadata>();
 
-  // Register diagnostic command if output channel is set and we are owner
-  if (outputChannel) {
-    registerDiagnosticCommand();
-  }
+/**
+ * Version of this library. Keep in sync with package.json; the tests fail
+ * when they differ.
+ */
+const LIBRARY_VERSION = "1.0.24";
 
-  // Register command when first extension registers
-  if (wasEmpty && activeExtensions.size > 0) {
-    ensureShowMenuCommand();
-  }
+/**
+ * Version of the mcp-acs.* command contract implemented by this library.
+ * Version 1 is the original contract without mcp-acs.getProtocolInfo.
+ */
+const PROTOCOL_VERSION = 2;
 
-  // Only update status bar if count actually changed
-  if (countChanged) {
-    updateStatusBar();
-  }
+/**
+ * Optional feature of the mcp-acs.* command contract.
+ * - update: mcp-acs.updateExtension
+ * - progress: mcp-acs.reportProgress
+ * - heartbeat: mcp-acs.heartbeat
+ * - handoff: successor commands passed on registration
+ * - extendedStatus: statuses beyond ok/warning/error, statusMessage and detail
+ * - errors: mcp-acs.reportError
+ * - logs: outputChannel in metadata, routing each extension's log messages
+ * - actions: enabledWhen, confirm, timeoutMs, cancellable and inline of
+ *   actions, group and groupOrder
+ */
+export type ProtocolCapability =
+  | "update"
+  | "progress"
+  | "heartbeat"
+  | "handoff"
+  | "extendedStatus"
+  | "errors"
+  | "logs"
+  | "actions";
+
+/**
+ * Protocol information exchanged between copies of this library.
+ */
+export interface ProtocolInfo {
+  /** Version of the mcp-acs.* command contract */
+  protocolVersion: number;
+  /** Version of the library copy */
+  libraryVersion: string;
+  /** Optional features supported */
+  capabilities: ProtocolCapability[];
 }
 
 /**
- * Unregisters an extension from the shared status bar.
- *
- * This function is safe to call even if the extension was never registered or
- * has already been unregistered. It will log a message but not throw an error.
+ * Protocol information assumed for owners that predate mcp-acs.getProtocolInfo.
+ */
+const LEGACY_PROTOCOL_INFO: ProtocolInfo = {
+  protocolVersion: 1,
+  libraryVersion: "unknown",
+  capabilities: [],
+};
+
+/**
+ * Statuses understood by owners without the extendedStatus capability.
+ */
+const LEGACY_STATUSES: ReadonlyArray<ExtensionStatus> = [
+  "ok",
+  "warning",
+  "error",
+];
+
+/**
+ * Compatibility warnings already logged, so each is only logged once.
+ */
+const compatibilityWarnings = new Set<string>();
+
+/**
+ * When the status bar item is shown (mcpAcs.statusBar.visibility setting).
+ * - always: while at least one extension is registered
+ * - onIssues: only while an extension reports an error or warning
+ * - never: the item is hidden; commands remain available
+ */
+export type StatusBarVisibility = "always" | "onIssues" | "never";
+
+/**
+ * Status bar settings read from the mcpAcs.statusBar configuration section.
+ */
+interface StatusBarSettings {
+  alignment: vscode.StatusBarAlignment;
+  priority: number;
+  visibility: StatusBarVisibility;
+  /** Text template configured by the user, empty when not set */
+  textTemplate: string;
+}
+
+/**
+ * Settings the current status bar item was created with.
+ * Alignment and priority cannot be changed on an existing item, so the item
+ * is recreated when they change.
+ */
+let statusBarSettings: StatusBarSettings | undefined;
+
+/**
+ * Text template supplied by the owning extension through setStatusBarTextTemplate.
+ * The mcpAcs.statusBar.textTemplate setting takes precedence over it.
+ */
+let textTemplate: string | undefined;
+
+/**
+ * Most recent status or progress message reported by any extension,
+ * available to text templates as ${message}.
+ */
+let lastMessage: string | undefined;
+
+/**
+ * The extension that reported lastMessage.
+ */
+let lastMessageExtensionId: string | undefined;
+
+/**
+ * Map of active extension IDs to their metadata.
+ * Using a Map ensures automatic deduplication of extension IDs,
+ * making registration operations naturally idempotent.
+ */
+const activeExtensions = new Map<string, ExtensionMetadata>();
+
+/**
+ * Disposable for the show menu command.
+ * Created when the first extension registers, disposed when the last unregisters.
+ */
+let commandDisposable: vscode.Disposable | undefined;
+
+/**
+ * Disposable for the register extension command.
+ * Created when this extension becomes the owner of the status bar.
+ */
+let registerCommandDisposable: vscode.Disposable | undefined;
+
+/**
+ * Disposable for the unregister extension command.
+ * Created when this extension becomes the owner of the status bar.
+ */
+let unregisterCommandDisposable: vscode.Disposable | undefined;
+
+/**
+ * Disposable for the update extension command.
+ * Created when this extension becomes the owner of the status bar.
+ */
+let updateCommandDisposable: vscode.Disposable | undefined;
+
+/**
+ * Disposable for the report progress command.
+ * Created when this extension becomes the owner of the status bar.
+ */
+let progressCommandDisposable: vscode.Disposable | undefined;
+
+/**
+ * Disposable for the report error command.
+ * Created when this extension becomes the owner of the status bar.
+ */
+let reportErrorCommandDisposable: vscode.Disposable | undefined;
+
+/**
+ * Disposable for the heartbeat command.
+ * Created when this extension becomes the owner of the status bar.
+ */
+let heartbeatCommandDisposable: vscode.Disposable | undefined;
+
+/**
+ * Disposable for the action palette command.
+ * Created when this extension becomes the owner of the status bar.
+ */
+let runActionCommandDisposable: vscode.Disposable | undefined;
+
+/**
+ * Commands of the registered actions (mcp-acs.action.<extensionId>.<actionId>),
+ * keyed by extension ID and then by command ID.
+ * Synced with the metadata by the owner, disposed when the extension
+ * unregisters.
+ */
+const actionCommandDisposables = new Map<
+  string,
+  Map<string, vscode.Disposable>
+>();
+
+/**
+ * Disposable for this copy's successor command (mcp-acs.acceptOwnership.<instanceId>).
+ * Created when this copy registers an extension with another owner.
+ */
+let successorCommandDisposable: vscode.Disposable | undefined;
+
+/**
+ * Disposable for the protocol info command.
+ * Created when this extension becomes the owner of the status bar.
+ */
+let protocolCommandDisposable: vscode.Disposable | undefined;
+
+/**
+ * Disposable for the configuration change listener.
+ * Created with the status bar item, disposed with it.
+ */
+let configurationListenerDisposable: vscode.Disposable | undefined;
+
+/**
+ * The open quick pick menu.
+ * Created by showMenuCommand, disposed when the menu is hidden.
+ */
+let menu: vscode.QuickPick<MenuItem> | undefined;
+
+/**
+ * Extension whose actions the open menu shows,
+ * or undefined while it shows the list of extensions.
+ */
+let menuExtensionId: string | undefined;
+
+/**
+ * Whether the open menu shows the errors reported by menuExtensionId
+ * instead of its actions.
+ */
+let menuShowsErrors = false;
+
+/**
+ * Title of the menu, followed by the breadcrumb of the current page.
+ */
+const MENU_TITLE = "ACS Extensions";
+
+/**
+ * Menu group header of extensions without a group, and the header used
+ * instead when an extension names its group like that.
+ */
+const OTHER_GROUP = "Other";
+const UNGROUPED_HEADER = "Other (no group)";
+
+/**
+ * Item of the quick pick menu.
+ *
+ * Selections are routed by menuKind, id and action, never by the display
+ * text, so label, description and detail are free to show anything.
+ * (QuickPickItem.kind is only used for separators.)
+ */
+interface MenuItem extends vscode.QuickPickItem {
+  /** What accepting the item does */
+  menuKind:
+    | "extension"
+    | "action"
+    | "unavailableAction"
+    | "settings"
+    | "logs"
+    | "diagnostics"
+    | "errors"
+    | "reportedError"
+    | "clearErrors"
+    | "separator";
+  /** ID of the extension the item belongs to */
+  id?: string;
+  /** Action run when an action item is accepted */
+  action?: ExtensionAction;
+}
+
+/**
+ * Action the user ran recently, identified by its extension and its `id`,
+ * or its label if it has no `id`.
+ */
+interface RecentAction {
+  extensionId: string;
+  id?: string;
+  label: string;
+}
+
+/**
+ * Key of the recently used actions in ExtensionContext.globalState.
+ */
+const RECENT_ACTIONS_KEY = "mcpAcs.recentActions";
+
+/**
+ * Number of recently used actions shown at the top of the menu.
+ */
+const RECENT_ACTIONS_LIMIT = 5;
+
+/**
+ * Storage of the recently used actions, set by setExtensionContext.
+ * Without it, recently used actions are only kept in memory.
+ */
+let globalState: vscode.Memento | undefined;
+
+/**
+ * Recently used actions, most recent first.
+ */
+let recentActions: RecentAction[] = [];
+
+/**
+ * How long an action command is waited for unless it sets its own timeoutMs.
+ */
+const DEFAULT_ACTION_TIMEOUT_MS = 10000;
+
+/**
+ * Button on an extension's row of the menu.
+ */
+interface MenuItemButton extends vscode.QuickInputButton {
+  /** Inline action run by the button, undefined for the settings button */
+  action?: ExtensionAction;
+}
+
+/**
+ * Disposable for the diagnostic command.
+ * Created when output channel is set, disposed during cleanup.
+ */
+let diagnosticCommandDisposable: vscode.Disposable | undefined;
+
+/**
+ * Output channel for logging, shared by all extensions that do not set
+ * their own (see ExtensionMetadata.outputChannel).
+ * Optional - if not set, warnings and errors go to the console.
+ */
+let outputChannel: vscode.OutputChannel | undefined;
+
+/**
+ * Output channels set with setOutputChannel for extensions that were not
+ * registered through this copy yet, sent along when they register.
+ */
+const pendingOutputChannels = new Map<string, vscode.OutputChannel>();
+
+/**
+ * Most recent errors, oldest first.
+ * Used for diagnostic reporting and troubleshooting.
+ */
+const errorHistory: ErrorRecord[] = [];
+
+/**
+ * Number of errors kept in errorHistory.
+ */
+const ERROR_HISTORY_LIMIT = 50;
+
+/**
+ * Most recent log lines, oldest first, included in exported diagnostics.
+ */
+const logTail: string[] = [];
+
+/**
+ * Number of log lines kept in logTail.
+ */
+const LOG_TAIL_LIMIT = 200;
+
+/**
+ * Disposable for the export diagnostics command.
+ * Created when this extension becomes the owner of the status bar.
+ */
+let exportDiagnosticsCommandDisposable: vscode.Disposable | undefined;
+
+/**
+ * Disposable for the clear errors command.
+ * Created when this extension becomes the owner of the status bar.
+ */
+let clearErrorsCommandDisposable: vscode.Disposable | undefined;
+
+/**
+ * Level of a log message, or of the mcpAcs.logLevel setting ("off" logs
+ * nothing). Messages below the configured level are dropped.
+ */
+type LogLevel = "trace" | "debug" | "info" | "warn" | "error" | "off";
+
+/**
+ * Verbosity order of the log levels, most verbose first.
+ */
+const LOG_LEVEL_ORDER: Record<LogLevel, number> = {
+  trace: 0,
+  debug: 1,
+  info: 2,
+  warn: 3,
+  error: 4,
+  off: 5,
+};
+
+/**
+ * Level used for plain output channels when mcpAcs.logLevel is not set.
+ */
+const DEFAULT_LOG_LEVEL: LogLevel = "debug";
+
+/**
+ * Level used for the console when mcpAcs.logLevel is not set, so the
+ * extension host console only shows problems by default.
+ */
+const DEFAULT_CONSOLE_LOG_LEVEL: LogLevel = "warn";
+
+/**
+ * The mcpAcs.logLevel setting, read on the first log message and again after
+ * it changes, so logging does not read the configuration every time.
+ * Null until read; undefined when not set or invalid.
+ */
+let cachedLogLevel: LogLevel | undefined | null = null;
+
+/**
+ * Disposable for the listener that rereads mcpAcs.logLevel.
+ * Created on the first log message, disposed with the library.
+ */
+let logLevelListenerDisposable: vscode.Disposable | undefined;
+
+/**
+ * Structured fields attached to a log message.
+ */
+interface LogFields {
+  /** What was being done, e.g. "registerExtension" */
+  operation?: string;
+  /** The extension the message is about */
+  extensionId?: string;
+  /** How long the operation took */
+  durationMs?: number;
+}
+
+/**
+ * Leveled logger of the shared status bar.
+ *
+ * Messages about an extension go to that extension's output channel when it
+ * set one, other messages to the shared output channel, and messages without
+ * a channel to the console. A `vscode.LogOutputChannel` receives each message through its
+ * level method, so VS Code's own log level filter applies. Errors always go
+ * to the console as well, unless mcpAcs.logLevel is "off", and are kept in
+ * the error history.
+ *
+ * The mcpAcs.logLevel setting applies to every destination. Without it,
+ * plain output channels get debug messages and above, the console warnings
+ * and errors, and a LogOutputChannel everything its own level allows.
+ *
+ * @internal
+ */
+const logger = {
+  trace: (message: string, fields?: LogFields) =>
+    writeLog("trace", message, fields),
+  debug: (message: string, fields?: LogFields) =>
+    writeLog("debug", message, fields),
+  info: (message: string, fields?: LogFields) =>
+    writeLog("info", message, fields),
+  warn: (message: string, fields?: LogFields) =>
+    writeLog("warn", message, fields),
+  /**
+   * Logs an error with its message and stack trace.
+   *
+   * @param message - Descriptive message about the error context
+   * @param error - The error object or value that was thrown
+   * @param fields - Structured fields, e.g. the extension the failed
+   *   operation was for
+   */
+  error: (message: string, error: unknown, fields?: LogFields) => {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    const errorStack = error instanceof Error ? error.stack : undefined;
+    const operation = message.replace(/:$/, "");
+
+    recordError({
+      timestamp: new Date().toISOString(),
+      operation: fields?.operation || operation,
+      extensionId: fields?.extensionId,
+      message: errorMessage,
+      stack: errorStack,
+    });
+    writeLog("error", `${operation}: ${errorMessage}`, fields, errorStack);
+
+    // Log to console in the format expected by tests
+    if (getLogLevel() !== "off") {
+      console.error(message, error);
+    }
+  },
+};
+
+/**
+ * Writes a log message to the log tail and the output channel (or the
+ * console) if its level is enabled.
+ *
+ * @internal
+ */
+function writeLog(
+  level: Exclude<LogLevel, "off">,
+  message: string,
+  fields?: LogFields,
+  stack?: string
+): void {
+  const channel = getLogChannel(fields?.extensionId);
+  const logChannel =
+    channel && isLogOutputChannel(channel) ? channel : undefined;
+  const setting = getLogLevel();
+  // Without the setting, a LogOutputChannel filters by VS Code's log level
+  const threshold = setting || (logChannel ? "trace" : DEFAULT_LOG_LEVEL);
+  if (LOG_LEVEL_ORDER[level] < LOG_LEVEL_ORDER[threshold]) {
+    return;
+  }
+
+  const text = `${message}${formatLogFields(fields)}${
+    stack ? "\n" + stack : ""
+  }`;
+  const line = `[${new Date().toISOString()}] [${level}] ${text}`;
+  appendLogTail(line);
+
+  if (logChannel) {
+    // The channel adds its own timestamp and level
+    logChannel[level](text);
+  } else if (channel) {
+    channel.appendLine(line);
+  } else if (
+    level !== "error" &&
+    LOG_LEVEL_ORDER[level] >=
+      LOG_LEVEL_ORDER[setting || DEFAULT_CONSOLE_LOG_LEVEL]
+  ) {
+    (level === "warn" ? console.warn : console.log)(line);
+  }
+}
+
+/**
+ * Returns the output channel for messages about an extension: the channel
+ * it set, whether it registered with this copy or through it, or the shared
+ * output channel.
+ *
+ * A channel sent by a copy in another extension host arrives as a plain
+ * object without methods; messages about that extension go to the shared
+ * channel instead.
+ *
+ * @internal
+ */
+function getLogChannel(
+  extensionId: string | undefined
+): vscode.OutputChannel | undefined {
+  if (extensionId === undefined) {
+    return outputChannel;
+  }
+  const channel = [
+    activeExtensions.get(extensionId)?.outputChannel,
+    localExtensions.get(extensionId)?.outputChannel,
+  ].find(isUsableChannel);
+  return channel || outputChannel;
+}
+
+/**
+ * Whether a value is an output channel this copy can write to and show.
+ *
+ * @internal
+ */
+function isUsableChannel(
+  channel: vscode.OutputChannel | undefined
+): channel is vscode.OutputChannel {
+  return (
+    !!channel &&
+    typeof channel.appendLine === "function" &&
+    typeof channel.show === "function"
+  );
+}
+
+/**
+ * Formats structured log fields as ` key=value` pairs, quoting strings.
+ *
+ * @internal
+ */
+function formatLogFields(fields?: LogFields): string {
+  return Object.entries(fields || {})
+    .filter(([, value]) => value !== undefined)
+    .map(
+      ([key, value]) =>
+        ` ${key}=${typeof value === "string" ? JSON.stringify(value) : value}`
+    )
+    .join("");
+}
+
+/**
+ * Returns the mcpAcs.logLevel setting, reading it on first use and listening
+ * for changes to it.
+ *
+ * @returns The configured level, or undefined when it is not set or invalid
+ * @internal
+ */
+function getLogLevel(): LogLevel | undefined {
+  if (cachedLogLevel !== null) {
+    return cachedLogLevel;
+  }
+  cachedLogLevel = readLogLevel();
+  if (!logLevelListenerDisposable) {
+    try {
+      logLevelListenerDisposable = vscode.workspace.onDidChangeConfiguration(
+        (event) => {
+          if (event.affectsConfiguration("mcpAcs.logLevel")) {
+            cachedLogLevel = null;
+          }
+        }
+      );
+    } catch (error) {
+      // Logging the failure would read the setting again; without the
+      // listener, changes apply after a reload
+    }
+  }
+  return cachedLogLevel;
+}
+
+/**
+ * Disposes the log level listener and forgets the cached level, so the next
+ * log message reads the setting again.
+ *
+ * @internal
+ */
+function disposeLogLevelListener(): void {
+  try {
+    logLevelListenerDisposable?.dispose();
+  } catch (error) {
+    // Logging the failure would register the listener again
+  }
+  logLevelListenerDisposable = undefined;
+  cachedLogLevel = null;
+}
+
+/**
+ * Reads the mcpAcs.logLevel setting.
+ *
+ * @returns The configured level, or undefined when it is not set or invalid
+ * @internal
+ */
+function readLogLevel(): LogLevel | undefined {
+  try {
+    const level = vscode.workspace
+      .getConfiguration("mcpAcs")
+      .get<string>("logLevel");
+    return level && Object.prototype.hasOwnProperty.call(LOG_LEVEL_ORDER, level)
+      ? (level as LogLevel)
+      : undefined;
+  } catch (error) {
+    // Logging the failure would read the setting again
+    return undefined;
+  }
+}
+
+/**
+ * Whether an output channel is a `vscode.LogOutputChannel`.
+ *
+ * @internal
+ */
+function isLogOutputChannel(
+  channel: vscode.OutputChannel
+): channel is vscode.LogOutputChannel {
+  const candidate = channel as Partial<vscode.LogOutputChannel>;
+  return (
+    typeof candidate.trace === "function" &&
+    typeof candidate.debug === "function" &&
+    typeof candidate.info === "function" &&
+    typeof candidate.warn === "function" &&
+    typeof candidate.error === "function"
+  );
+}
+
+/**
+ * Keeps an error in the error history, dropping the oldest error when it is
+ * full.
+ *
+ * @internal
+ */
+function recordError(record: ErrorRecord): void {
+  errorHistory.push(record);
+  if (errorHistory.length > ERROR_HISTORY_LIMIT) {
+    errorHistory.shift();
+  }
+}
+
+/**
+ * Command handler for mcp-acs.clearErrors. Empties the error history.
+ *
+ * @internal
+ */
+function clearErrorsCommand(): void {
+  const count = errorHistory.length;
+  errorHistory.length = 0;
+  logger.info(`Error history cleared (${count} error(s))`);
+  vscode.window.showInformationMessage(
+    count > 0
+      ? `Cleared ${count} ACS error(s).`
+      : "There are no ACS errors to clear."
+  );
+}
+
+/**
+ * Keeps a log line in the log tail, dropping the oldest line when it is full.
+ *
+ * @internal
+ */
+function appendLogTail(line: string): void {
+  logTail.push(line);
+  if (logTail.length > LOG_TAIL_LIMIT) {
+    logTail.shift();
+  }
+}
+
+/**
+ * Sets the output channel for logging.
+ *
+ * Once configured, log messages are written to this output channel instead of
+ * the console (errors still go to the console as well). Pass a
+ * `vscode.LogOutputChannel` (created with `{ log: true }`) to get leveled
+ * output that follows VS Code's log level. The mcpAcs.logLevel setting
+ * ("trace", "debug", "info", "warn", "error" or "off") filters messages
+ * for every kind of channel. This also registers the diagnostic command
+ * (mcp-acs.diagnostics) for troubleshooting.
+ *
+ * Without an extension ID this sets the shared output channel, and is
+ * idempotent - calling it multiple times will only use the first output
+ * channel provided. With an extension ID, the channel only receives the
+ * messages about that extension, like `ExtensionMetadata.outputChannel`;
+ * if the extension is not registered yet, the channel is sent along when it
+ * registers.
+ *
+ * @param channel - VSCode output channel to use for logging
+ * @param extensionId - Extension whose messages go to the channel
+ *
+ * @example
+ * ```typescript
+ * const outputChannel = vscode.window.createOutputChannel("MCP ACS", {
+ *   log: true,
+ * });
+ * setOutputChannel(outputChannel);
+ *
+ * // Only the messages about my-extension-id
+ * const ownChannel = vscode.window.createOutputChannel("My Extension", {
+ *   log: true,
+ * });
+ * setOutputChannel(ownChannel, "my-extension-id");
+ * ```
+ */
+export function setOutputChannel(
+  channel: vscode.OutputChannel,
+  extensionId?: string
+): void {
+  if (extensionId !== undefined) {
+    if (localExtensions.has(extensionId)) {
+      // Sent like any other metadata change so the owner routes to it
+      void updateExtension(extensionId, { outputChannel: channel });
+    } else {
+      pendingOutputChannels.set(extensionId, channel);
+      logger.debug(
+        `Output channel set before registration, sending it on registration: ${extensionId}`,
+        { extensionId }
+      );
+    }
+    return;
+  }
+
+  // Only set the shared output channel once (first extension wins)
+  if (outputChannel) {
+    logger.debug("Output channel already configured, ignoring duplicate call");
+    return;
+  }
+
+  outputChannel = channel;
+  logger.info("Output channel configured for shared status bar");
+
+  // Only register diagnostic command if we are the owner (have registered the registration command)
+  if (registerCommandDisposable) {
+    registerDiagnosticCommand();
+  }
+}
+
+/**
+ * Sets the extension context whose globalState keeps the recently used
+ * actions across sessions.
+ *
+ * Only the context of the status bar owner is used, since the owner runs the
+ * menu. This function is idempotent - calling it multiple times will only use
+ * the first context provided.
+ *
+ * @param context - Context passed to the extension's activate function
+ *
+ * @example
+ * ```typescript
+ * export function activate(context: vscode.ExtensionContext) {
+ *   setExtensionContext(context);
+ *   registerExtension("my-extension-id");
+ * }
+ * ```
+ */
+export function setExtensionContext(context: vscode.ExtensionContext): void {
+  if (globalState) {
+    logger.debug("Extension context already configured, ignoring duplicate call");
+    return;
+  }
+
+  globalState = context.globalState;
+  const stored = globalState.get<RecentAction[]>(RECENT_ACTIONS_KEY, []);
+  // Actions run before the context was set come first
+  for (const entry of Array.isArray(stored) ? stored : []) {
+    if (
+      typeof entry?.extensionId === "string" &&
+      typeof entry?.label === "string" &&
+      (entry.id === undefined || typeof entry.id === "string") &&
+      !recentActions.some((recent) =>
+        isSameRecentAction(recent, entry.extensionId, entry)
+      )
+    ) {
+      recentActions.push({
+        extensionId: entry.extensionId,
+        id: entry.id,
+        label: entry.label,
+      });
+    }
+  }
+  recentActions = recentActions.slice(0, RECENT_ACTIONS_LIMIT);
+  logger.info(
+    `Extension context configured (${recentActions.length} recent actions)`
+  );
+}
+
+/**
+ * Registers the diagnostic command if not already registered.
+ * This should only be called by the status bar owner.
+ */
+function registerDiagnosticCommand(): void {
+  if (diagnosticCommandDisposable) {
+    return;
+  }
+  try {
+    diagnosticCommandDisposable = vscode.commands.registerCommand(
+      "mcp-acs.diagnostics",
+      showDiagnostics
+    );
+    logger.debug("Diagnostic command registered: mcp-acs.diagnostics");
+  } catch (error) {
+    logger.error("Failed to register mcp-acs.diagnostics command:", error);
+  }
+}
+
+/**
+ * Registers an extension with the shared status bar.
+ *
+ * This function is idempotent - calling it multiple times with the same extension ID
+ * has no additional effect. The Set data structure automatically handles deduplication.
+ *
+ * When the first extension registers:
+ * - The show menu command (mcp-acs.showMenu) is registered
+ * - The status bar item is created and shown
+ *
+ * When subsequent extensions register:
+ * - The extension count is incremented
+ * - The status bar tooltip is updated to reflect the new count
+ * - The existing status bar item is reused (singleton pattern)
+ *
+ * @param extensionId - Unique identifier for the extension (e.g., "mcp-debugger")
+ *
+ * @example
+ * ```typescript
+ * export async function activate(context: vscode.ExtensionContext) {
+ *   await registerExtension("my-extension-id");
+ *   context.subscriptions.push({
+ *     dispose: () => unregisterExtension("my-extension-id")
+ *   });
+ * }
+ * ```
+ */
+export async function registerExtension(
+  extensionId: string,
+  metadata?: ExtensionMetadata
+): Promise<void> {
+  const pendingChannel = pendingOutputChannels.get(extensionId);
+  if (pendingChannel) {
+    pendingOutputChannels.delete(extensionId);
+    metadata = { outputChannel: pendingChannel, ...metadata };
+  }
+  localExtensions.set(extensionId, metadata || {});
+  const startedAt = Date.now();
+
+  // Try to register with an existing owner first.
+  // We must check that the command exists before calling executeCommand because
+  // in VS Code remote environments (dev containers, SSH, WSL) executeCommand
+  // for an unregistered command can hang indefinitely while VS Code waits for
+  // an extension that might provide it to finish activating.
+  try {
+    // getCommands can also hang in remote environments — listed with a timeout
+    const allCommands = await listCommands();
+    if (allCommands.includes("mcp-acs.registerExtension")) {
+      // Verify the owner is actually responsive before delegating
+      await registerWithOwner(extensionId, metadata, allCommands);
+      logger.info("Registered with existing status bar owner", {
+        operation: "registerExtension",
+        extensionId,
+        durationMs: Date.now() - startedAt,
+      });
+      return;
+    } else {
+      logger.info(
+        `No existing status bar owner found, attempting to become owner for ${extensionId}`,
+        { operation: "registerExtension", extensionId }
+      );
+    }
+  } catch (error) {
+    // Command lookup or execution failed/timed out - we will attempt to become the owner
+    logger.info(
+      `No existing status bar owner found (or command failed/timed out), attempting to become owner for ${extensionId}`,
+      { operation: "registerExtension", extensionId }
+    );
+  }
+
+  // We are the owner (or the first one)
+  // Try to acquire the lock by registering the registration command
+  if (!registerCommandDisposable) {
+    try {
+      registerOwnerCommands();
+
+      // We successfully registered the command, so we are the owner.
+      // Now we can register ourselves.
+      internalRegister(extensionId, metadata);
+    } catch (error) {
+      logger.error(
+        "Failed to register mcp-acs.registerExtension command:",
+        error
+      );
+      // If we failed to register, maybe someone else just did?
+      // Try to register with them again?
+      try {
+        const allCommands = await listCommands();
+        if (allCommands.includes("mcp-acs.registerExtension")) {
+          await registerWithOwner(extensionId, metadata, allCommands);
+          logger.info("Registered with new status bar owner", {
+            operation: "registerExtension",
+            extensionId,
+            durationMs: Date.now() - startedAt,
+          });
+          return;
+        }
+        // Command still doesn't exist — fall through to local registration
+        internalRegister(extensionId, metadata);
+      } catch (e) {
+        logger.error(
+          "Failed to register with new owner after losing race:",
+          e,
+          { extensionId }
+        );
+        // Fallback: Register locally anyway so at least WE work
+        internalRegister(extensionId, metadata);
+      }
+    }
+  } else {
+    // We are already the owner
+    internalRegister(extensionId, metadata);
+  }
+}
+
+/**
+ * Registers an extension with the status bar owner of another copy.
+ *
+ * Older owners ignore metadata they do not understand, so the metadata is
+ * downgraded to the owner's capabilities and each loss is logged instead of
+ * happening silently.
+ *
+ * @internal
+ */
+async function registerWithOwner(
+  extensionId: string,
+  metadata: ExtensionMetadata | undefined,
+  allCommands: string[]
+): Promise<void> {
+  const ownerProtocol = await queryOwnerProtocol(allCommands);
+  await forwardToOwner(
+    "mcp-acs.registerExtension",
+    extensionId,
+    downgradeMetadata(extensionId, metadata, ownerProtocol),
+    ensureSuccessorCommand(),
+    LIBRARY_VERSION
+  );
+}
+
+/**
+ * Registers the commands through which other bundled copies of this library
+ * talk to the status bar owner.
+ *
+ * Registering mcp-acs.registerExtension acts as the ownership lock: if it
+ * fails, the error is thrown so the caller can fall back to another owner.
+ * Failures registering the remaining commands are logged but not thrown.
+ *
+ * @internal
+ */
+function registerOwnerCommands(): void {
+  registerCommandDisposable = vscode.commands.registerCommand(
+    "mcp-acs.registerExtension",
+    (
+      id: string,
+      meta?: ExtensionMetadata,
+      successorCommand?: string,
+      libraryVersion?: string
+    ) => {
+      logger.trace(`Received registration request from: ${id}`);
+      internalRegister(id, meta, libraryVersion);
+      if (successorCommand) {
+        successors.set(id, successorCommand);
+      }
+    }
+  );
+  logger.debug("Command registered: mcp-acs.registerExtension");
+
+  // Register the protocol info command so newer clients can detect our capabilities
+  if (!protocolCommandDisposable) {
+    try {
+      protocolCommandDisposable = vscode.commands.registerCommand(
+        "mcp-acs.getProtocolInfo",
+        () => getProtocolInfo()
+      );
+      logger.debug("Command registered: mcp-acs.getProtocolInfo");
+    } catch (error) {
+      logger.error("Failed to register mcp-acs.getProtocolInfo command:", error);
+    }
+  }
+
+  // Register the unregistration command so others can unregister with us
+  if (!unregisterCommandDisposable) {
+    try {
+      unregisterCommandDisposable = vscode.commands.registerCommand(
+        "mcp-acs.unregisterExtension",
+        (id: string) => {
+          logger.trace(`Received unregistration request from: ${id}`);
+          return internalUnregister(id);
+        }
+      );
+      logger.debug("Command registered: mcp-acs.unregisterExtension");
+    } catch (error) {
+      logger.error(
+        "Failed to register mcp-acs.unregisterExtension command:",
+        error
+      );
+    }
+  }
+
+  // Register the update command so others can change their metadata
+  if (!updateCommandDisposable) {
+    try {
+      updateCommandDisposable = vscode.commands.registerCommand(
+        "mcp-acs.updateExtension",
+        (id: string, meta: Partial<ExtensionMetadata>) => {
+          logger.trace(`Received update request from: ${id}`);
+          internalUpdate(id, meta);
+        }
+      );
+      logger.debug("Command registered: mcp-acs.updateExtension");
+    } catch (error) {
+      logger.error(
+        "Failed to register mcp-acs.updateExtension command:",
+        error
+      );
+    }
+  }
+
+  // Register the progress command so others can report long-running operations
+  if (!progressCommandDisposable) {
+    try {
+      progressCommandDisposable = vscode.commands.registerCommand(
+        "mcp-acs.reportProgress",
+        (id: string, report: ProgressReport) => {
+          internalReportProgress(id, report);
+        }
+      );
+      logger.debug("Command registered: mcp-acs.reportProgress");
+    } catch (error) {
+      logger.error(
+        "Failed to register mcp-acs.reportProgress command:",
+        error
+      );
+    }
+  }
+
+  // Register the error command so others can report their failures
+  if (!reportErrorCommandDisposable) {
+    try {
+      reportErrorCommandDisposable = vscode.commands.registerCommand(
+        "mcp-acs.reportError",
+        (id: string, report: ErrorReport) => {
+          internalReportError(id, report);
+        }
+      );
+      logger.debug("Command registered: mcp-acs.reportError");
+    } catch (error) {
+      logger.error("Failed to register mcp-acs.reportError command:", error);
+    }
+  }
+
+  // Register the heartbeat command so others can report they are alive
+  if (!heartbeatCommandDisposable) {
+    try {
+      heartbeatCommandDisposable = vscode.commands.registerCommand(
+        "mcp-acs.heartbeat",
+        (id: string, options?: HeartbeatOptions) =>
+          internalHeartbeat(id, options)
+      );
+      logger.debug("Command registered: mcp-acs.heartbeat");
+    } catch (error) {
+      logger.error("Failed to register mcp-acs.heartbeat command:", error);
+    }
+  }
+
+  // Register the action palette so users can search all actions at once
+  if (!runActionCommandDisposable) {
+    try {
+      runActionCommandDisposable = vscode.commands.registerCommand(
+        "mcp-acs.runAction",
+        runActionCommand
+      );
+      logger.debug("Command registered: mcp-acs.runAction");
+    } catch (error) {
+      logger.error("Failed to register mcp-acs.runAction command:", error);
+    }
+  }
+
+  // Register the export command so diagnostics can be attached to bug reports
+  if (!exportDiagnosticsCommandDisposable) {
+    try {
+      exportDiagnosticsCommandDisposable = vscode.commands.registerCommand(
+        "mcp-acs.exportDiagnostics",
+        exportDiagnosticsCommand
+      );
+      logger.debug("Command registered: mcp-acs.exportDiagnostics");
+    } catch (error) {
+      logger.error(
+        "Failed to register mcp-acs.exportDiagnostics command:",
+        error
+      );
+    }
+  }
+
+  // Register the command that clears the error history
+  if (!clearErrorsCommandDisposable) {
+    try {
+      clearErrorsCommandDisposable = vscode.commands.registerCommand(
+        "mcp-acs.clearErrors",
+        clearErrorsCommand
+      );
+      logger.debug("Command registered: mcp-acs.clearErrors");
+    } catch (error) {
+      logger.error("Failed to register mcp-acs.clearErrors command:", error);
+    }
+  }
+}
+
+/**
+ * Ensures the mcp-acs.showMenu command is registered and wired to the status bar.
+ *
+ * This function handles the case where a previous registration attempt failed
+ * (e.g., stale command from a crashed extension host) by detecting the failure
+ * and always assigning the command string to the status bar item. VS Code will
+ * route the click to whichever extension currently owns the command registration.
+ *
+ * @internal
+ */
+function ensureShowMenuCommand(): void {
+  if (!commandDisposable) {
+    try {
+      commandDisposable = vscode.commands.registerCommand(
+        "mcp-acs.showMenu",
+        showMenuCommand
+      );
+      logger.debug("Command registered: mcp-acs.showMenu");
+    } catch (error) {
+      // Command already registered by another module instance — this is expected
+      // when multiple extensions bundle their own copy of the shared status bar.
+      // We still set statusBarItem.command below so clicks route to the owner.
+      logger.info(
+        `mcp-acs.showMenu already registered by another instance, will delegate clicks to existing owner`
+      );
+    }
+  }
+  // Always assign the command to the status bar item, even if we didn't register it.
+  // VS Code routes the click to whichever extension owns the command registration.
+  if (statusBarItem) {
+    statusBarItem.command = "mcp-acs.showMenu";
+  }
+}
+
+function internalRegister(
+  extensionId: string,
+  metadata?: ExtensionMetadata,
+  libraryVersion?: string
+): void {
+  const wasEmpty = activeExtensions.size === 0;
+  const previousSize = activeExtensions.size;
+
+  // Add to Map - automatically handles deduplication (idempotent operation)
+  activeExtensions.set(extensionId, metadata || {});
+  const now = Date.now();
+  const record = extensionRecords.get(extensionId);
+  extensionRecords.set(extensionId, {
+    libraryVersion: libraryVersion || record?.libraryVersion,
+    registeredAt: record?.registeredAt ?? now,
+    updatedAt: now,
+  });
+  if (metadata?.statusMessage) {
+    lastMessage = metadata.statusMessage;
+    lastMessageExtensionId = extensionId;
+  }
+
+  // Check if this was a new registration or a duplicate
+  const countChanged = activeExtensions.size !== previousSize;
+
+  if (countChanged) {
+    logger.info(
+      `Extension registered: ${extensionId} (total: ${activeExtensions.size})`,
+      { operation: "registerExtension", extensionId }
+    );
+  } else {
+    // Duplicate registration - log but don't update status bar
+    logger.info(
+      `Extension already registered: ${extensionId} (duplicate registration ignored)`,
+      { operation: "registerExtension", extensionId }
+    );
+  }
+
+  // Register diagnostic command if output channel is set and we are owner
+  if (outputChannel) {
+    registerDiagnosticCommand();
+  }
+
+  // Register command when first extension registers
+  if (wasEmpty && activeExtensions.size > 0) {
+    ensureShowMenuCommand();
+  }
+
+  // A duplicate registration may still bring new actions
+  syncActionCommands(extensionId);
+
+  // Only update status bar if count actually changed
+  if (countChanged) {
+    updateStatusBar();
+    refreshOpenMenu();
+  }
+}
+
+/**
+ * Returns a short, stable hash of a label for action IDs that cannot be
+ * derived from it.
+ *
+ * @internal
+ */
+function hashLabel(label: string): string {
+  let hash = 5381;
+  for (let i = 0; i < label.length; i++) {
+    hash = ((hash << 5) + hash + label.charCodeAt(i)) >>> 0;
+  }
+  return hash.toString(36);
+}
+
+/**
+ * Returns the command IDs of an extension's actions, in action order:
+ * mcp-acs.action.<extensionId>.<actionId>. The action ID is the action's
+ * `id`, or its label in kebab case. Labels without ASCII letters or digits
+ * use a hash of the label, and a kebab-case label that another action
+ * already claims gets the hash appended. Actions with the same `id` or the
+ * same label still share a command ID.
+ *
+ * @internal
+ */
+function getActionCommandIds(
+  extensionId: string,
+  actions: ExtensionAction[]
+): Array<[string, ExtensionAction]> {
+  const explicitIds = new Set(actions.map((a) => a.id).filter(Boolean));
+  const taken = new Set<string>();
+  return actions.map((action) => {
+    let actionId = action.id;
+    if (!actionId) {
+      const slug = action.label
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "-")
+        .replace(/^-|-$/g, "");
+      if (!slug) {
+        actionId = hashLabel(action.label);
+      } else if (explicitIds.has(slug) || taken.has(slug)) {
+        actionId = `${slug}-${hashLabel(action.label)}`;
+      } else {
+        actionId = slug;
+      }
+    }
+    taken.add(actionId);
+    return [`mcp-acs.action.${extensionId}.${actionId}`, action];
+  });
+}
+
+/**
+ * Registers a command for each action of an extension and disposes the
+ * commands of actions it no longer has, so users can bind keys to actions.
+ *
+ * @internal
+ */
+function syncActionCommands(extensionId: string): void {
+  const meta = activeExtensions.get(extensionId);
+  const existing = actionCommandDisposables.get(extensionId) || new Map();
+  const wanted = new Map<string, ExtensionAction>();
+  for (const [commandId, action] of getActionCommandIds(
+    extensionId,
+    meta?.actions || []
+  )) {
+    if (wanted.has(commandId)) {
+      logger.warn(
+        `Action "${action.label}" has the same command as another action, leaving out its command: ${commandId}`,
+        { extensionId }
+      );
+      continue;
+    }
+    wanted.set(commandId, action);
+  }
+
+  for (const [commandId, disposable] of existing) {
+    if (!wanted.has(commandId)) {
+      try {
+        disposable.dispose();
+        logger.debug(`Command disposed: ${commandId}`);
+      } catch (error) {
+        logger.error(`Failed to dispose ${commandId} command:`, error, {
+          extensionId,
+        });
+      }
+      existing.delete(commandId);
+    }
+  }
+
+  for (const commandId of wanted.keys()) {
+    if (existing.has(commandId)) {
+      continue;
+    }
+    try {
+      existing.set(
+        commandId,
+        vscode.commands.registerCommand(commandId, () => {
+          // Look the action up when invoked so the latest metadata is used
+          const action = getActionCommandIds(
+            extensionId,
+            activeExtensions.get(extensionId)?.actions || []
+          ).find(([id]) => id === commandId)?.[1];
+          return action ? runExtensionAction(extensionId, action) : undefined;
+        })
+      );
+      logger.debug(`Command registered: ${commandId}`);
+    } catch (error) {
+      logger.error(`Failed to register ${commandId} command:`, error, {
+        extensionId,
+      });
+    }
+  }
+
+  if (existing.size > 0) {
+    actionCommandDisposables.set(extensionId, existing);
+  } else {
+    actionCommandDisposables.delete(extensionId);
+  }
+}
+
+/**
+ * Disposes the action commands of one extension, or of all extensions.
+ *
+ * @internal
+ */
+function disposeActionCommands(extensionId?: string): void {
+  const extensionIds =
+    extensionId !== undefined
+      ? [extensionId]
+      : Array.from(actionCommandDisposables.keys());
+  for (const id of extensionIds) {
+    for (const [commandId, disposable] of actionCommandDisposables.get(id) ||
+      []) {
+      try {
+        disposable.dispose();
+        logger.debug(`Command disposed: ${commandId}`);
+      } catch (error) {
+        logger.error(`Failed to dispose ${commandId} command:`, error, {
+          extensionId: id,
+        });
+      }
+    }
+    actionCommandDisposables.delete(id);
+  }
+}
+
+/**
+ * Unregisters an extension from the shared status bar.
+ *
+ * This function is safe to call even if the extension was never registered or
+ * has already been unregistered. It will log a message but not throw an error.
+ *
+ * When the last extension unregisters:
+ * - The show menu command is disposed
+ * - The status bar item is hidden (but not disposed, maintaining singleton)
+ *
+ * @param extensionId - Unique identifier for the extension to unregister
+ *
+ * @example
+ * ```typescript
+ * export function deactivate() {
+ *   unregisterExtension("my-extension-id");
+ * }
+ * ```
+ */
+export async function unregisterExtension(extensionId: string): Promise<void> {
+  localExtensions.delete(extensionId);
+  if (localExtensions.size === 0 && successorCommandDisposable) {
+    // None of our extensions remain, so we can no longer take over ownership
+    try {
+      successorCommandDisposable.dispose();
+      successorCommandDisposable = undefined;
+      logger.debug(`Command disposed: ${getSuccessorCommandId()}`);
+    } catch (error) {
+      logger.error("Failed to dispose successor command:", error);
+    }
+  }
+
+  try {
+    const allCommands = await listCommandsFor("mcp-acs.unregisterExtension");
+    if (allCommands.includes("mcp-acs.unregisterExtension")) {
+      await forwardToOwner("mcp-acs.unregisterExtension", extensionId);
+      logger.info("Unregistered via owner", {
+        operation: "unregisterExtension",
+        extensionId,
+      });
+      return;
+    }
+    // Command not registered — fall through to local unregister
+    await internalUnregister(extensionId);
+  } catch (error) {
+    // If command fails/times out (e.g. we are owner, or owner died), try local unregister
+    await internalUnregister(extensionId);
+  }
+}
+
+/**
+ * Unregisters an extension from this copy's state.
+ *
+ * Everything but the ownership handoff happens synchronously; the returned
+ * promise resolves once a handoff this triggers has finished.
+ *
+ * @internal
+ */
+async function internalUnregister(extensionId: string): Promise<void> {
+  // Defensive check: only proceed if the extension was actually registered
+  const wasRegistered = activeExtensions.has(extensionId);
+  if (!wasRegistered) {
+    // Safe unregistration: log but don't error on non-existent extension
+    logger.debug(`Extension not registered, ignoring unregister: ${extensionId}`);
+    return;
+  }
+
+  // Remove the extension from the Set
+  activeExtensions.delete(extensionId);
+  activeProgress.delete(extensionId);
+  reportedErrors.delete(extensionId);
+  successors.delete(extensionId);
+  heartbeats.delete(extensionId);
+  staleExtensions.delete(extensionId);
+  if (heartbeats.size === 0) {
+    stopHeartbeatCheck();
+  }
+  disposeActionCommands(extensionId);
+  extensionRecords.delete(extensionId);
+  if (lastMessageExtensionId === extensionId) {
+    restoreLastMessage();
+  }
+  logger.info(
+    `Extension unregistered: ${extensionId} (remaining: ${activeExtensions.size})`,
+    { operation: "unregisterExtension", extensionId }
+  );
+
+  // Dispose command when last extension unregisters
+  if (activeExtensions.size === 0 && commandDisposable) {
+    try {
+      commandDisposable.dispose();
+      commandDisposable = undefined;
+      logger.debug("Command disposed: mcp-acs.showMenu");
+    } catch (error) {
+      logger.error("Failed to dispose mcp-acs.showMenu command:", error);
+    }
+  }
+
+  // Dispose register command when last extension unregisters
+  if (activeExtensions.size === 0 && registerCommandDisposable) {
+    try {
+      registerCommandDisposable.dispose();
+      registerCommandDisposable = undefined;
+      logger.debug("Command disposed: mcp-acs.registerExtension");
+    } catch (error) {
+      logger.error("Failed to dispose mcp-acs.registerExtension command:", error);
+    }
+  }
+
+  // Dispose unregister command when last extension unregisters
+  if (activeExtensions.size === 0 && unregisterCommandDisposable) {
+    try {
+      unregisterCommandDisposable.dispose();
+      unregisterCommandDisposable = undefined;
+      logger.debug("Command disposed: mcp-acs.unregisterExtension");
+    } catch (error) {
+      logger.error(
+        "Failed to dispose mcp-acs.unregisterExtension command:",
+        error
+      );
+    }
+  }
+
+  // Dispose update command when last extension unregisters
+  if (activeExtensions.size === 0 && updateCommandDisposable) {
+    try {
+      updateCommandDisposable.dispose();
+      updateCommandDisposable = undefined;
+      logger.debug("Command disposed: mcp-acs.updateExtension");
+    } catch (error) {
+      logger.error("Failed to dispose mcp-acs.updateExtension command:", error);
+    }
+  }
+
+  // Dispose progress command when last extension unregisters
+  if (activeExtensions.size === 0 && progressCommandDisposable) {
+    try {
+      progressCommandDisposable.dispose();
+      progressCommandDisposable = undefined;
+      logger.debug("Command disposed: mcp-acs.reportProgress");
+    } catch (error) {
+      logger.error("Failed to dispose mcp-acs.reportProgress command:", error);
+    }
+  }
+
+  // Dispose report error command when last extension unregisters
+  if (activeExtensions.size === 0 && reportErrorCommandDisposable) {
+    try {
+      reportErrorCommandDisposable.dispose();
+      reportErrorCommandDisposable = undefined;
+      logger.debug("Command disposed: mcp-acs.reportError");
+    } catch (error) {
+      logger.error("Failed to dispose mcp-acs.reportError command:", error);
+    }
+  }
+
+  // Dispose protocol info command when last extension unregisters
+  if (activeExtensions.size === 0 && protocolCommandDisposable) {
+    try {
+      protocolCommandDisposable.dispose();
+      protocolCommandDisposable = undefined;
+      logger.debug("Command disposed: mcp-acs.getProtocolInfo");
+    } catch (error) {
+      logger.error("Failed to dispose mcp-acs.getProtocolInfo command:", error);
+    }
+  }
+
+  // Dispose heartbeat command when last extension unregisters
+  if (activeExtensions.size === 0 && heartbeatCommandDisposable) {
+    try {
+      heartbeatCommandDisposable.dispose();
+      heartbeatCommandDisposable = undefined;
+      logger.debug("Command disposed: mcp-acs.heartbeat");
+    } catch (error) {
+      logger.error("Failed to dispose mcp-acs.heartbeat command:", error);
+    }
+  }
+
+  // Dispose action palette command when last extension unregisters
+  if (activeExtensions.size === 0 && runActionCommandDisposable) {
+    try {
+      runActionCommandDisposable.dispose();
+      runActionCommandDisposable = undefined;
+      logger.debug("Command disposed: mcp-acs.runAction");
+    } catch (error) {
+      logger.error("Failed to dispose mcp-acs.runAction command:", error);
+    }
+  }
+
+  // Dispose export diagnostics command when last extension unregisters
+  if (activeExtensions.size === 0 && exportDiagnosticsCommandDisposable) {
+    try {
+      exportDiagnosticsCommandDisposable.dispose();
+      exportDiagnosticsCommandDisposable = undefined;
+      logger.debug("Command disposed: mcp-acs.exportDiagnostics");
+    } catch (error) {
+      logger.error("Failed to dispose mcp-acs.exportDiagnostics command:", error);
+    }
+  }
+
+  // Dispose clear errors command when last extension unregisters
+  if (activeExtensions.size === 0 && clearErrorsCommandDisposable) {
+    try {
+      clearErrorsCommandDisposable.dispose();
+      clearErrorsCommandDisposable = undefined;
+      logger.debug("Command disposed: mcp-acs.clearErrors");
+    } catch (error) {
+      logger.error("Failed to dispose mcp-acs.clearErrors command:", error);
+    }
+  }
+
+  // Update status bar visibility based on new count
+  updateStatusBar();
+  refreshOpenMenu();
+
+  // Once none of our own extensions remain, the extensions of other copies
+  // still depend on us - hand ownership over before our host goes away
+  if (
+    registerCommandDisposable &&
+    activeExtensions.size > 0 &&
+    !Array.from(activeExtensions.keys()).some((id) => localExtensions.has(id))
+  ) {
+    await handOffOwnership();
+  }
+}
+
+/**
+ * Returns the protocol information of this copy of the library.
+ *
+ * The status bar owner serves this through the mcp-acs.getProtocolInfo
+ * command, so that newer clients can detect older owners and adapt.
+ *
+ * @returns Protocol version, library version and supported capabilities
+ */
+export function getProtocolInfo(): ProtocolInfo {
+  return {
+    protocolVersion: PROTOCOL_VERSION,
+    libraryVersion: LIBRARY_VERSION,
+    capabilities: [
+      "update",
+      "progress",
+      "heartbeat",
+      "handoff",
+      "extendedStatus",
+      "errors",
+      "logs",
+      "actions",
+    ],
+  };
+}
+
+/**
+ * How long VS Code and other copies of the library are waited for. In remote
+ * environments (dev containers, SSH, WSL) getCommands and executeCommand can
+ * hang while VS Code waits for an extension host.
+ */
+const COMMAND_TIMEOUT_MS = 3000;
+
+/**
+ * Owner commands that answered a forwarded call. Frequent calls such as
+ * progress updates skip listing all commands once the owner served them;
+ * a command is forgotten as soon as a call to it fails.
+ */
+const knownOwnerCommands = new Set<string>();
+
+/**
+ * Waits for a promise, rejecting if it does not settle in time. The timer is
+ * cleared either way, so no timer outlives the call.
+ *
+ * @internal
+ */
+async function withTimeout<T>(
+  promise: Thenable<T>,
+  description: string
+): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new Error(`${description} timeout`)),
+      COMMAND_TIMEOUT_MS
+    );
+  });
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Lists all registered commands.
+ *
+ * @internal
+ */
+function listCommands(): Promise<string[]> {
+  return withTimeout(vscode.commands.getCommands(true), "getCommands");
+}
+
+/**
+ * Lists the registered commands before calling an owner command, or only
+ * that command if the owner already served it.
+ *
+ * @internal
+ */
+async function listCommandsFor(command: string): Promise<string[]> {
+  return knownOwnerCommands.has(command) ? [command] : listCommands();
+}
+
+/**
+ * Executes a command of the status bar owner (or of another copy of the
+ * library), racing it against the timeout to detect stale or hung copies.
+ *
+ * Only call this for commands known to exist: executeCommand for an
+ * unregistered command can hang in remote environments.
+ *
+ * @internal
+ */
+async function forwardToOwner<T = unknown>(
+  command: string,
+  ...args: unknown[]
+): Promise<T> {
+  try {
+    const result = await withTimeout(
+      vscode.commands.executeCommand<T>(command, ...args),
+      `${command} command`
+    );
+    knownOwnerCommands.add(command);
+    return result;
+  } catch (error) {
+    knownOwnerCommands.delete(command);
+    throw error;
+  }
+}
+
+/**
+ * Asks the status bar owner for its protocol information.
+ *
+ * @param allCommands - Currently registered commands
+ * @returns The owner's protocol information, or the legacy protocol for
+ *   owners without mcp-acs.getProtocolInfo or that do not answer
+ * @internal
+ */
+async function queryOwnerProtocol(
+  allCommands: string[]
+): Promise<ProtocolInfo> {
+  if (!allCommands.includes("mcp-acs.getProtocolInfo")) {
+    return LEGACY_PROTOCOL_INFO;
+  }
+  try {
+    const info = await forwardToOwner<ProtocolInfo>("mcp-acs.getProtocolInfo");
+    return info && typeof info.protocolVersion === "number"
+      ? info
+      : LEGACY_PROTOCOL_INFO;
+  } catch (error) {
+    logger.error("Failed to query owner protocol info:", error);
+    return LEGACY_PROTOCOL_INFO;
+  }
+}
+
+/**
+ * Logs a compatibility warning about the status bar owner, once per message.
+ *
+ * @internal
+ */
+function warnIncompatibleOwner(owner: ProtocolInfo, problem: string): void {
+  const message =
+    `WARNING: Status bar owner (library ${owner.libraryVersion}, ` +
+    `protocol v${owner.protocolVersion}) ${problem}. Update the extensions ` +
+    `bundling an older @ai-capabilities-suite/vscode-shared-status-bar ` +
+    `(this copy: ${LIBRARY_VERSION}, protocol v${PROTOCOL_VERSION}).`;
+  if (compatibilityWarnings.has(message)) {
+    return;
+  }
+  compatibilityWarnings.add(message);
+  logger.warn(message);
+}
+
+/**
+ * Converts metadata to what the owner understands.
+ *
+ * Owners without the extendedStatus capability only know the ok, warning
+ * and error statuses and do not display statusMessage or detail. Other
+ * statuses are mapped to "ok" and the unsupported fields are dropped, with
+ * a warning naming what was lost.
+ *
+ * @internal
+ */
+function downgradeMetadata(
+  extensionId: string,
+  metadata: ExtensionMetadata | undefined,
+  owner: ProtocolInfo
+): ExtensionMetadata | undefined {
+  metadata =
+    metadata &&
+    downgradeActions(
+      extensionId,
+      dropOutputChannel(extensionId, metadata, owner),
+      owner
+    );
+  if (!metadata || owner.capabilities.includes("extendedStatus")) {
+    return metadata;
+  }
+
+  const { statusMessage, detail, ...downgraded } = metadata;
+  const lost: string[] = [];
+  if (statusMessage !== undefined) {
+    lost.push("statusMessage");
+  }
+  if (detail !== undefined) {
+    lost.push("detail");
+  }
+  if (downgraded.status && !LEGACY_STATUSES.includes(downgraded.status)) {
+    lost.push(`status "${downgraded.status}" (shown as "ok")`);
+    downgraded.status = "ok";
+  }
+  if (lost.length > 0) {
+    warnIncompatibleOwner(
+      owner,
+      `cannot display ${lost.join(", ")} of ${extensionId}`
+    );
+  }
+  return downgraded;
+}
+
+/**
+ * Adapts actions to owners without the actions capability.
+ *
+ * Such owners ignore the action options they do not know. For most options
+ * that only costs convenience, but without `confirm` a destructive action
+ * would run without the confirmation the extension asked for, so those
+ * actions are removed. Each loss is named in a warning.
+ *
+ * @internal
+ */
+function downgradeActions<T extends Partial<ExtensionMetadata>>(
+  extensionId: string,
+  metadata: T,
+  owner: ProtocolInfo
+): T {
+  if (owner.capabilities.includes("actions")) {
+    return metadata;
+  }
+
+  const actions = metadata.actions || [];
+  const ignored: string[] = (
+    ["enabledWhen", "timeoutMs", "cancellable", "inline"] as const
+  ).filter((option) =>
+    actions.some((action) => action[option] !== undefined)
+  );
+  for (const option of ["group", "groupOrder"] as const) {
+    if (metadata[option] !== undefined) {
+      ignored.push(option);
+    }
+  }
+  if (ignored.length > 0) {
+    warnIncompatibleOwner(
+      owner,
+      `ignores ${ignored.join(", ")} of ${extensionId}`
+    );
+  }
+
+  const confirmed = actions.filter((action) => action.confirm !== undefined);
+  if (confirmed.length === 0) {
+    return metadata;
+  }
+  warnIncompatibleOwner(
+    owner,
+    `cannot ask for confirmation, leaving out the actions ${confirmed
+      .map((action) => `"${action.label}"`)
+      .join(", ")} of ${extensionId}`
+  );
+  return {
+    ...metadata,
+    actions: actions.filter((action) => action.confirm === undefined),
+  };
+}
+
+/**
+ * Removes the output channel from metadata sent to owners without the logs
+ * capability. They would keep it as plain metadata and might fail to
+ * serialize it; this copy still writes its own messages to the channel.
+ *
+ * @internal
+ */
+function dropOutputChannel<T extends Partial<ExtensionMetadata>>(
+  extensionId: string,
+  metadata: T,
+  owner: ProtocolInfo
+): T {
+  if (!("outputChannel" in metadata) || owner.capabilities.includes("logs")) {
+    return metadata;
+  }
+  const { outputChannel, ...rest } = metadata;
+  warnIncompatibleOwner(
+    owner,
+    `cannot route the logs of ${extensionId} to its output channel`
+  );
+  return rest as T;
+}
+
+/**
+ * Returns the command through which the owner can hand ownership to this copy.
+ *
+ * @internal
+ */
+function getSuccessorCommandId(): string {
+  return `mcp-acs.acceptOwnership.${instanceId}`;
+}
+
+/**
+ * Registers this copy's successor command if not already registered.
+ *
+ * The command ID is passed to the owner on registration, so the owner can
+ * hand its state to this copy when it goes away.
+ *
+ * @returns The successor command ID, or undefined if it could not be registered
+ * @internal
+ */
+function ensureSuccessorCommand(): string | undefined {
+  if (!successorCommandDisposable) {
+    try {
+      successorCommandDisposable = vscode.commands.registerCommand(
+        getSuccessorCommandId(),
+        (snapshot: OwnershipSnapshot) => acceptOwnership(snapshot)
+      );
+      logger.debug(`Command registered: ${getSuccessorCommandId()}`);
+    } catch (error) {
+      logger.error("Failed to register successor command:", error);
+      return undefined;
+    }
+  }
+  return getSuccessorCommandId();
+}
+
+/**
+ * Captures the state of all extensions registered by other copies of the library.
+ * Extensions registered through this copy are left out, as they go away with it.
+ *
+ * @internal
+ */
+function createOwnershipSnapshot(): OwnershipSnapshot {
+  const extensions = Array.from(activeExtensions).filter(
+    ([id]) => !localExtensions.has(id)
+  );
+  const ids = new Set(extensions.map(([id]) => id));
+  return {
+    extensions,
+    successors: Array.from(successors).filter(([id]) => ids.has(id)),
+    progress: Array.from(activeProgress).filter(([id]) => ids.has(id)),
+    records: Array.from(extensionRecords).filter(([id]) => ids.has(id)),
+    reportedErrors: Array.from(reportedErrors).filter(([id]) => ids.has(id)),
+    heartbeats: Array.from(heartbeats).filter(([id]) => ids.has(id)),
+  };
+}
+
+/**
+ * Gives up ownership and hands the remaining extensions to a successor.
+ *
+ * If no successor accepts, this copy takes ownership back so that no
+ * extension loses its entry.
+ *
+ * @returns A promise that resolves once a successor accepted or this copy
+ *   took ownership back
+ * @internal
+ */
+async function handOffOwnership(): Promise<void> {
+  const snapshot = createOwnershipSnapshot();
+  if (snapshot.successors.length === 0) {
+    logger.info("No successor available, keeping status bar ownership");
+    return;
+  }
+
+  logger.info(
+    `Handing off status bar ownership (${snapshot.extensions.length} extension(s))`
+  );
+  disposeOwnerResources();
+  clearExtensionState();
+  await transferOwnership(snapshot, true);
+}
+
+/**
+ * Sends the snapshot to the successors in turn until one accepts it.
+ *
+ * @param snapshot - State to hand over
+ * @param reclaimOnFailure - Whether to restore the state locally if no successor accepts
+ * @internal
+ */
+async function transferOwnership(
+  snapshot: OwnershipSnapshot,
+  reclaimOnFailure: boolean
+): Promise<void> {
+  const candidates = Array.from(
+    new Set(snapshot.successors.map(([, command]) => command))
+  ).filter((command) => command !== getSuccessorCommandId());
+  for (const command of candidates) {
+    try {
+      await forwardToOwner(command, snapshot);
+      logger.info(`Status bar ownership handed to ${command}`);
+      return;
+    } catch (error) {
+      logger.error(`Failed to hand ownership to ${command}:`, error);
+    }
+  }
+
+  if (reclaimOnFailure) {
+    logger.warn("No successor accepted ownership, taking it back");
+    acceptOwnership(snapshot);
+  } else {
+    // Expected when the window closes and every copy goes away
+    logger.info(
+      "No successor accepted ownership, remaining extensions were dropped"
+    );
+  }
+}
+
+/**
+ * Takes over ownership of the status bar with the state of the previous owner.
+ *
+ * This is the handler of the successor command. It throws if the owner
+ * commands cannot be registered, so the previous owner tries the next successor.
+ *
+ * @param snapshot - State handed over by the previous owner
+ * @internal
+ */
+function acceptOwnership(snapshot: OwnershipSnapshot): void {
+  logger.info(
+    `Accepting status bar ownership (${snapshot.extensions.length} extension(s))`
+  );
+  if (!registerCommandDisposable) {
+    registerOwnerCommands();
+  }
+
+  for (const [id, meta] of snapshot.extensions) {
+    activeExtensions.set(id, meta);
+    syncActionCommands(id);
+  }
+  for (const [id, command] of snapshot.successors) {
+    successors.set(id, command);
+  }
+  for (const [id, progress] of snapshot.progress) {
+    activeProgress.set(id, progress);
+  }
+  for (const [id, record] of snapshot.records || []) {
+    extensionRecords.set(id, record);
+  }
+  for (const [id, errors] of snapshot.reportedErrors || []) {
+    reportedErrors.set(id, errors);
+  }
+  for (const [id, heartbeat] of snapshot.heartbeats || []) {
+    heartbeats.set(id, heartbeat);
+  }
+  if (heartbeats.size > 0) {
+    // Extensions that stopped responding before the handoff are marked
+    // right away instead of after the next interval
+    startHeartbeatCheck();
+    checkHeartbeats();
+  }
+
+  if (outputChannel) {
+    registerDiagnosticCommand();
+  }
+  ensureShowMenuCommand();
+  updateStatusBar();
+}
+
+/**
+ * Updates the metadata of an already registered extension.
+ *
+ * The given fields are merged into the existing metadata, so callers only need
+ * to pass what changed (e.g. `{ status: "error" }`). Unlike a duplicate
+ * registerExtension call, this always re-renders the status bar and any open menu.
+ *
+ * Like registration, the update is routed to the status bar owner when another
+ * bundled copy of this library owns the status bar.
+ *
+ * @param extensionId - Identifier the extension was registered with
+ * @param metadata - Metadata fields to change
+ *
+ * @example
+ * ```typescript
+ * await updateExtension("mcp-debugger", { status: "error" });
+ * ```
+ */
+export async function updateExtension(
+  extensionId: string,
+  metadata: Partial<ExtensionMetadata>
+): Promise<void> {
+  const local = localExtensions.get(extensionId);
+  if (local) {
+    localExtensions.set(extensionId, { ...local, ...metadata });
+  }
+
+  try {
+    const allCommands = await listCommands();
+    if (allCommands.includes("mcp-acs.updateExtension")) {
+      // Only output channels and actions depend on the owner's capabilities
+      let ownerMetadata = metadata;
+      if (
+        "outputChannel" in metadata ||
+        "actions" in metadata ||
+        "group" in metadata ||
+        "groupOrder" in metadata
+      ) {
+        const ownerProtocol = await queryOwnerProtocol(allCommands);
+        ownerMetadata = downgradeActions(
+          extensionId,
+          dropOutputChannel(extensionId, metadata, ownerProtocol),
+          ownerProtocol
+        );
+      }
+      await forwardToOwner(
+        "mcp-acs.updateExtension",
+        extensionId,
+        ownerMetadata
+      );
+      logger.info("Updated via owner", {
+        operation: "updateExtension",
+        extensionId,
+      });
+      return;
+    }
+    if (allCommands.includes("mcp-acs.registerExtension") && local) {
+      // The owner predates partial updates - re-register with the full
+      // metadata, which also makes it repaint
+      const ownerProtocol = await queryOwnerProtocol(allCommands);
+      warnIncompatibleOwner(
+        ownerProtocol,
+        "does not support mcp-acs.updateExtension, re-registering to apply updates"
+      );
+      const fullMetadata = downgradeMetadata(
+        extensionId,
+        localExtensions.get(extensionId),
+        ownerProtocol
+      );
+      await forwardToOwner("mcp-acs.unregisterExtension", extensionId);
+      await forwardToOwner(
+        "mcp-acs.registerExtension",
+        extensionId,
+        fullMetadata
+      );
+      logger.info("Updated via re-registration with legacy owner", {
+        operation: "updateExtension",
+        extensionId,
+      });
+      return;
+    }
+    // Command not registered — fall through to local update
+    internalUpdate(extensionId, metadata);
+  } catch (error) {
+    // If command fails/times out (e.g. we are owner, or owner died), try local update
+    internalUpdate(extensionId, metadata);
+  }
+}
+
+function internalUpdate(
+  extensionId: string,
+  metadata: Partial<ExtensionMetadata>
+): void {
+  const existing = activeExtensions.get(extensionId);
+  if (!existing) {
+    // Updates only apply to registered extensions; registration stays explicit
+    logger.warn(`Extension not registered, ignoring update: ${extensionId}`, {
+      operation: "updateExtension",
+      extensionId,
+    });
+    return;
+  }
+
+  activeExtensions.set(extensionId, { ...existing, ...metadata });
+  const record = extensionRecords.get(extensionId);
+  if (record) {
+    record.updatedAt = Date.now();
+  }
+  if (metadata?.statusMessage) {
+    lastMessage = metadata.statusMessage;
+    lastMessageExtensionId = extensionId;
+  }
+  if (metadata?.actions !== undefined) {
+    syncActionCommands(extensionId);
+  }
+  logger.info(
+    `Extension updated: ${extensionId} (fields: ${Object.keys(metadata || {}).join(", ") || "none"})`,
+    { operation: "updateExtension", extensionId }
+  );
+
+  updateStatusBar();
+  refreshOpenMenu();
+}
+
+/**
+ * Reports progress of a long-running operation of a registered extension.
+ *
+ * While an operation is running the status bar shows a spinning icon with the
+ * completion percentage, and the extension's menu entry shows the message and
+ * percentage. The operation ends when `done` is reported or the accumulated
+ * increments reach `total`. Reports without any increment show an
+ * indeterminate spinner.
+ *
+ * Like registration, progress is routed to the status bar owner when another
+ * bundled copy of this library owns the status bar.
+ *
+ * @param extensionId - Identifier the extension was registered with
+ * @param report - Progress update
+ *
+ * @example
+ * ```typescript
+ * await reportProgress("mcp-debugger", { message: "Indexing", total: 10 });
+ * for (const file of files) {
+ *   await indexFile(file);
+ *   await reportProgress("mcp-debugger", { increment: 1 });
+ * }
+ * ```
+ */
+export async function reportProgress(
+  extensionId: string,
+  report: ProgressReport
+): Promise<void> {
+  try {
+    const allCommands = await listCommandsFor("mcp-acs.reportProgress");
+    if (allCommands.includes("mcp-acs.reportProgress")) {
+      await forwardToOwner("mcp-acs.reportProgress", extensionId, report);
+      return;
+    }
+    if (allCommands.includes("mcp-acs.registerExtension")) {
+      warnIncompatibleOwner(
+        await queryOwnerProtocol(allCommands),
+        "does not support progress reporting, progress is not shown"
+      );
+      return;
+    }
+    // Command not registered — fall through to local progress
+    internalReportProgress(extensionId, report);
+  } catch (error) {
+    // If command fails/times out (e.g. we are owner, or owner died), report locally
+    internalReportProgress(extensionId, report);
+  }
+}
+
+function internalReportProgress(
+  extensionId: string,
+  report: ProgressReport
+): void {
+  if (!activeExtensions.has(extensionId)) {
+    logger.warn(`Extension not registered, ignoring progress: ${extensionId}`, {
+      operation: "reportProgress",
+      extensionId,
+    });
+    return;
+  }
+
+  const existing = activeProgress.get(extensionId);
+  const state: ProgressState = existing || {
+    worked: 0,
+    total: 100,
+    determinate: false,
+  };
+  if (report.total !== undefined && report.total > 0) {
+    state.total = report.total;
+  }
+  if (report.message !== undefined) {
+    state.message = report.message;
+    lastMessage = report.message;
+    lastMessageExtensionId = extensionId;
+  }
+  if (report.increment !== undefined) {
+    state.worked += report.increment;
+    state.determinate = true;
+  }
+
+  const finished =
+    report.done === true || (state.determinate && state.worked >= state.total);
+  if (finished) {
+    activeProgress.delete(extensionId);
+    logger.debug(`Progress finished: ${extensionId}`, {
+      operation: "reportProgress",
+      extensionId,
+    });
+  } else {
+    activeProgress.set(extensionId, state);
+    if (!existing) {
+      logger.debug(
+        `Progress started: ${extensionId}${
+          state.message ? ` (${state.message})` : ""
+        }`,
+        { operation: "reportProgress", extensionId }
+      );
+    }
+  }
+
+  updateStatusBar();
+  // Only refresh the menu when an operation starts or ends; replacing its
+  // items on every increment would reset the active item and selection
+  // while the user moves through the list
+  if (!existing || finished) {
+    refreshOpenMenu();
+  }
+}
+
+/**
+ * Error as sent to the owner through mcp-acs.reportError.
+ */
+interface ErrorReport extends ReportErrorOptions {
+  message: string;
+  stack?: string;
+}
+
+/**
+ * Reports an error of a registered extension to the shared status bar.
+ *
+ * The error is listed in the extension's "Errors" page of the menu and
+ * counted in the status bar badge. Until the user clears the errors, the
+ * extension is shown with an "error" status ("warning" for warnings) unless
+ * its own status is more severe. Errors are also kept in the error history
+ * of the diagnostics.
+ *
+ * Like progress, errors are routed to the status bar owner when another
+ * bundled copy of this library owns the status bar.
+ *
+ * @param extensionId - Identifier the extension was registered with
+ * @param error - The error object or value that was thrown
+ * @param options - Severity and suggested fix
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await startServer();
+ * } catch (error) {
+ *   await reportError("mcp-debugger", error, { actionHint: "Restart Server" });
+ * }
+ * ```
+ */
+export async function reportError(
+  extensionId: string,
+  error: unknown,
+  options: ReportErrorOptions = {}
+): Promise<void> {
+  const report: ErrorReport = {
+    message: error instanceof Error ? error.message : String(error),
+    stack: error instanceof Error ? error.stack : undefined,
+    severity: options.severity,
+    actionHint: options.actionHint,
+  };
+  try {
+    const allCommands = await listCommandsFor("mcp-acs.reportError");
+    if (allCommands.includes("mcp-acs.reportError")) {
+      await forwardToOwner("mcp-acs.reportError", extensionId, report);
+      return;
+    }
+    if (allCommands.includes("mcp-acs.registerExtension")) {
+      warnIncompatibleOwner(
+        await queryOwnerProtocol(allCommands),
+        "does not support error reporting, errors are not shown"
+      );
+      return;
+    }
+    // Command not registered — fall through to local error
+    internalReportError(extensionId, report);
+  } catch (commandError) {
+    // If command fails/times out (e.g. we are owner, or owner died), report locally
+    internalReportError(extensionId, report);
+  }
+}
+
+function internalReportError(extensionId: string, report: ErrorReport): void {
+  if (!activeExtensions.has(extensionId)) {
+    logger.warn(`Extension not registered, ignoring error: ${extensionId}`, {
+      operation: "reportError",
+      extensionId,
+    });
+    return;
+  }
+
+  const reported: ReportedError = {
+    timestamp: Date.now(),
+    severity: report.severity === "warning" ? "warning" : "error",
+    message: String(report.message),
+    stack: report.stack,
+    actionHint: report.actionHint,
+  };
+  const errors = reportedErrors.get(extensionId) || [];
+  errors.push(reported);
+  if (errors.length > REPORTED_ERRORS_LIMIT) {
+    errors.shift();
+  }
+  reportedErrors.set(extensionId, errors);
+  recordError({
+    timestamp: new Date(reported.timestamp).toISOString(),
+    operation: `Reported ${reported.severity}`,
+    extensionId,
+    message: reported.message,
+    stack: reported.stack,
+  });
+  logger.info(
+    `${reported.severity === "error" ? "Error" : "Warning"} reported by ${extensionId}: ${reported.message}`,
+    { operation: "reportError", extensionId }
+  );
+
+  updateStatusBar();
+  refreshOpenMenu();
+}
+
+/**
+ * Removes the errors an extension reported, restoring its own status.
+ *
+ * @internal
+ */
+function clearReportedErrors(extensionId: string): void {
+  const count = reportedErrors.get(extensionId)?.length || 0;
+  reportedErrors.delete(extensionId);
+  logger.info(`Reported errors cleared: ${extensionId} (${count} error(s))`);
+  updateStatusBar();
+  refreshOpenMenu();
+}
+
+/**
+ * Returns the most severe status among the errors an extension reported.
+ *
+ * @internal
+ */
+function getReportedSeverity(
+  extensionId: string
+): "warning" | "error" | undefined {
+  const errors = reportedErrors.get(extensionId) || [];
+  if (errors.some((error) => error.severity === "error")) {
+    return "error";
+  }
+  return errors.length > 0 ? "warning" : undefined;
+}
+
+/**
+ * Returns the total number of errors reported by all extensions.
+ *
+ * @internal
+ */
+function getReportedErrorCount(): number {
+  let count = 0;
+  for (const [id, errors] of reportedErrors) {
+    if (activeExtensions.has(id)) {
+      count += errors.length;
+    }
+  }
+  return count;
+}
+
+/**
+ * Formats the progress of an operation as "message 42%".
+ *
+ * @internal
+ */
+function formatProgress(state: ProgressState): string {
+  const percent = state.determinate ? ` ${getProgressPercent(state)}%` : "";
+  return `${state.message || "Working"}${percent}`;
+}
+
+/**
+ * Returns the completion percentage of an operation, clamped to 0-100.
+ *
+ * @internal
+ */
+function getProgressPercent(state: ProgressState): number {
+  const percent = Math.round((state.worked / state.total) * 100);
+  return Math.max(0, Math.min(100, percent));
+}
+
+/**
+ * Starts sending periodic heartbeats for a registered extension.
+ *
+ * Heartbeats are optional. Once the owner has received a heartbeat from an
+ * extension, it shows the extension as "not responding" when no heartbeat
+ * arrives within `staleAfterMs`, and unregisters it after `evictAfterMs`.
+ * This cleans up entries of extension hosts that crashed without calling
+ * unregisterExtension.
+ *
+ * @param extensionId - Identifier the extension was registered with
+ * @param options - Heartbeat interval and timeouts
+ * @returns Disposable that stops sending heartbeats
+ *
+ * @example
+ * ```typescript
+ * await registerExtension("mcp-debugger");
+ * context.subscriptions.push(startHeartbeat("mcp-debugger"));
+ * ```
+ */
+export function startHeartbeat(
+  extensionId: string,
+  options?: HeartbeatOptions
+): vscode.Disposable {
+  const intervalMs = options?.intervalMs ?? DEFAULT_HEARTBEAT_INTERVAL_MS;
+  const payload: HeartbeatOptions = {
+    intervalMs,
+    staleAfterMs: options?.staleAfterMs ?? intervalMs * 3,
+    evictAfterMs: options?.evictAfterMs ?? intervalMs * 30,
+  };
+
+  void sendHeartbeat(extensionId, payload);
+  const timer = setInterval(
+    () => void sendHeartbeat(extensionId, payload),
+    intervalMs
+  );
+  logger.debug(`Heartbeat started: ${extensionId} (interval: ${intervalMs}ms)`);
+
+  return {
+    dispose: () => {
+      clearInterval(timer);
+      logger.debug(`Heartbeat stopped: ${extensionId}`);
+    },
+  };
+}
+
+/**
+ * Sends a single heartbeat to the status bar owner.
+ *
+ * @internal
+ */
+async function sendHeartbeat(
+  extensionId: string,
+  options: HeartbeatOptions
+): Promise<void> {
+  // Owners that predate the answer return undefined
+  let known: boolean | undefined;
+  try {
+    const allCommands = await listCommandsFor("mcp-acs.heartbeat");
+    if (allCommands.includes("mcp-acs.heartbeat")) {
+      known = await forwardToOwner<boolean | undefined>(
+        "mcp-acs.heartbeat",
+        extensionId,
+        options
+      );
+    } else if (allCommands.includes("mcp-acs.registerExtension")) {
+      warnIncompatibleOwner(
+        await queryOwnerProtocol(allCommands),
+        "does not support heartbeats, liveness is not tracked"
+      );
+      return;
+    } else {
+      // Command not registered — fall through to local heartbeat
+      known = internalHeartbeat(extensionId, options);
+    }
+  } catch (error) {
+    // If command fails/times out (e.g. we are owner, or owner died), record locally
+    known = internalHeartbeat(extensionId, options);
+  }
+
+  // The owner evicted the extension, e.g. because the machine slept through
+  // its heartbeats; register it again while it is still registered here
+  const metadata = localExtensions.get(extensionId);
+  if (known === false && metadata) {
+    logger.info(`Registering ${extensionId} again after it was evicted`, {
+      operation: "heartbeat",
+      extensionId,
+    });
+    try {
+      await registerExtension(extensionId, metadata);
+    } catch (error) {
+      logger.error("Failed to register evicted extension again:", error, {
+        extensionId,
+      });
+    }
+  }
+}
+
+/**
+ * Records a heartbeat of a registered extension.
+ *
+ * @returns Whether the extension is registered; false tells the sender to
+ *   register it again
+ * @internal
+ */
+function internalHeartbeat(
+  extensionId: string,
+  options?: HeartbeatOptions
+): boolean {
+  if (!activeExtensions.has(extensionId)) {
+    logger.warn(`Extension not registered, ignoring heartbeat: ${extensionId}`, {
+      operation: "heartbeat",
+      extensionId,
+    });
+    return false;
+  }
+
+  const intervalMs = options?.intervalMs ?? DEFAULT_HEARTBEAT_INTERVAL_MS;
+  heartbeats.set(extensionId, {
+    lastSeen: Date.now(),
+    staleAfterMs: options?.staleAfterMs ?? intervalMs * 3,
+    evictAfterMs: options?.evictAfterMs ?? intervalMs * 30,
+  });
+
+  startHeartbeatCheck();
+
+  if (staleExtensions.delete(extensionId)) {
+    logger.info(`Extension responding again: ${extensionId}`, {
+      operation: "heartbeat",
+      extensionId,
+    });
+    updateStatusBar();
+    refreshOpenMenu();
+  }
+  return true;
+}
+
+/**
+ * Marks extensions with missed heartbeats as not responding and
+ * unregisters those that exceeded their eviction timeout.
+ *
+ * @internal
+ */
+function checkHeartbeats(): void {
+  const now = Date.now();
+  let changed = false;
+
+  for (const [id, state] of Array.from(heartbeats)) {
+    const elapsed = now - state.lastSeen;
+    if (elapsed >= state.evictAfterMs) {
+      logger.warn(`Evicting ${id}: no heartbeat for ${elapsed}ms`, {
+        operation: "heartbeat",
+        extensionId: id,
+      });
+      // internalUnregister re-renders the status bar and menu itself; a
+      // handoff it triggers completes in the background
+      internalUnregister(id).catch((error) =>
+        logger.error("Failed to evict extension:", error, { extensionId: id })
+      );
+    } else if (elapsed >= state.staleAfterMs && !staleExtensions.has(id)) {
+      logger.warn(
+        `Extension not responding: ${id} (no heartbeat for ${elapsed}ms)`,
+        { operation: "heartbeat", extensionId: id }
+      );
+      staleExtensions.add(id);
+      changed = true;
+    }
+  }
+
+  if (changed) {
+    updateStatusBar();
+    refreshOpenMenu();
+  }
+}
+
+/**
+ * Starts the missed heartbeat check if it is not running.
+ *
+ * @internal
+ */
+function startHeartbeatCheck(): void {
+  if (!heartbeatCheckTimer) {
+    heartbeatCheckTimer = setInterval(
+      checkHeartbeats,
+      HEARTBEAT_CHECK_INTERVAL_MS
+    );
+    logger.debug("Heartbeat monitoring started");
+  }
+}
+
+/**
+ * Stops the missed heartbeat check.
+ *
+ * @internal
+ */
+function stopHeartbeatCheck(): void {
+  if (heartbeatCheckTimer) {
+    clearInterval(heartbeatCheckTimer);
+    heartbeatCheckTimer = undefined;
+    logger.debug("Heartbeat monitoring stopped");
+  }
+}
+
+/**
+ * Returns the status shown for an extension, taking missed heartbeats and
+ * reported errors into account.
+ *
+ * @internal
+ */
+function getDisplayStatus(
+  extensionId: string,
+  meta: ExtensionMetadata
+): DisplayStatus {
+  const status: DisplayStatus = staleExtensions.has(extensionId)
+    ? "not responding"
+    : meta.status || "ok";
+  const reported = getReportedSeverity(extensionId);
+  return reported && STATUS_SEVERITY[reported] > STATUS_SEVERITY[status]
+    ? reported
+    : status;
+}
+
+/**
+ * Returns the status message shown for an extension.
+ * For extensions that are not responding, this is the time since their last
+ * heartbeat. For extensions shown with the status of a reported error, this
+ * is the message of the latest such error.
+ *
+ * @internal
+ */
+function getDisplayStatusMessage(
+  extensionId: string,
+  meta: ExtensionMetadata
+): string | undefined {
+  const status = getDisplayStatus(extensionId, meta);
+  if (
+    status !== (meta.status || "ok") &&
+    status === getReportedSeverity(extensionId)
+  ) {
+    const errors = (reportedErrors.get(extensionId) || []).filter(
+      (error) => error.severity === status
+    );
+    if (errors.length > 0) {
+      return errors[errors.length - 1].message;
+    }
+  }
+  const heartbeat = heartbeats.get(extensionId);
+  if (staleExtensions.has(extensionId) && heartbeat) {
+    const seconds = Math.round((Date.now() - heartbeat.lastSeen) / 1000);
+    return `No heartbeat for ${seconds}s`;
+  }
+  return meta.statusMessage;
+}
+
+/**
+ * Re-renders the quick pick menu if it is currently open.
+ *
+ * The items are replaced in place, so the user keeps their place. If the
+ * extension whose actions are shown unregistered, the menu goes back to
+ * the list of extensions.
+ *
+ * @internal
+ */
+function refreshOpenMenu(): void {
+  if (!menu) {
+    return;
+  }
+  logger.trace("Refreshing open menu after metadata change");
+  if (activeExtensions.size === 0) {
+    menu.hide();
+    return;
+  }
+  if (menuExtensionId !== undefined && !activeExtensions.has(menuExtensionId)) {
+    menuExtensionId = undefined;
+    menuShowsErrors = false;
+    menu.value = "";
+  }
+  renderMenu();
+}
+
+/**
+ * Shows the quick pick menu with all registered extensions.
+ *
+ * This is the command handler for mcp-acs.showMenu, which is invoked when
+ * the user clicks on the status bar item. Selecting an extension shows its
+ * actions, the back button returns to the list. The menu stays open after
+ * an action ran so several actions can be run in one session.
+ *
+ * @internal
+ */
+async function showMenuCommand(): Promise<void> {
+  try {
+    logger.debug(`Showing menu with ${activeExtensions.size} extensions`);
+
+    if (activeExtensions.size === 0) {
+      vscode.window.showInformationMessage("No ACS extensions are currently active.");
+      return;
+    }
+
+    // Clicking the status bar again while the menu is open starts over
+    if (menu) {
+      showMenuPage(undefined);
+      menu.show();
+      return;
+    }
+
+    let quickPick: vscode.QuickPick<MenuItem>;
+    try {
+      quickPick = vscode.window.createQuickPick();
+    } catch (quickPickError) {
+      logger.error("Quick pick failed:", quickPickError);
+      return;
+    }
+
+    menu = quickPick;
+    menuExtensionId = undefined;
+    menuShowsErrors = false;
+    quickPick.onDidAccept(() => acceptMenuItem(quickPick));
+    quickPick.onDidTriggerButton((button) => {
+      if (button === vscode.QuickInputButtons.Back) {
+        // The errors page goes back to its extension's actions
+        showMenuPage(menuShowsErrors ? menuExtensionId : undefined);
+      }
+    });
+    quickPick.onDidTriggerItemButton((event) =>
+      triggerMenuItemButton(quickPick, event)
+    );
+    quickPick.onDidHide(() => {
+      if (menu === quickPick) {
+        menu = undefined;
+        menuExtensionId = undefined;
+        menuShowsErrors = false;
+      }
+      quickPick.dispose();
+    });
+
+    renderMenu();
+    quickPick.show();
+  } catch (error) {
+    logger.error("Failed to show quick pick menu:", error);
+    vscode.window.showErrorMessage("Failed to display ACS extensions menu");
+  }
+}
+
+/**
+ * Switches the open menu to the actions or reported errors of an extension,
+ * or back to the list of extensions.
+ *
+ * @internal
+ */
+function showMenuPage(extensionId: string | undefined, errors = false): void {
+  if (!menu) {
+    return;
+  }
+  menuExtensionId = extensionId;
+  menuShowsErrors = errors && extensionId !== undefined;
+  menu.value = "";
+  renderMenu();
+}
+
+/**
+ * Fills the open menu with the items, title and buttons of its current page.
+ *
+ * @internal
+ */
+function renderMenu(): void {
+  if (!menu) {
+    return;
+  }
+  const meta =
+    menuExtensionId !== undefined
+      ? activeExtensions.get(menuExtensionId)
+      : undefined;
+
+  if (menuExtensionId === undefined || !meta) {
+    menu.title = MENU_TITLE;
+    menu.placeholder = "Active ACS Extensions";
+    menu.buttons = [];
+    menu.items = buildMenuItems();
+    return;
+  }
+
+  const name = meta.displayName || menuExtensionId;
+  menu.buttons = [vscode.QuickInputButtons.Back];
+
+  // Once the errors are cleared, their page goes back to the actions
+  if (menuShowsErrors && reportedErrors.has(menuExtensionId)) {
+    menu.title = `${MENU_TITLE} › ${name} › Errors`;
+    menu.placeholder = `Errors reported by ${name}`;
+    menu.items = buildErrorItems(menuExtensionId, meta);
+    return;
+  }
+  menuShowsErrors = false;
+  menu.title = `${MENU_TITLE} › ${name}`;
+  menu.placeholder = `Actions for ${name}`;
+  menu.items = buildActionItems(menuExtensionId, meta);
+}
+
+/**
+ * Handles the item the user accepted in the menu.
+ *
+ * @internal
+ */
+async function acceptMenuItem(
+  quickPick: vscode.QuickPick<MenuItem>
+): Promise<void> {
+  const selected = quickPick.selectedItems[0];
+  if (!selected) {
+    return;
+  }
+
+  try {
+    switch (selected.menuKind) {
+      case "extension":
+        showMenuPage(selected.id);
+        break;
+      case "errors":
+        showMenuPage(selected.id, true);
+        break;
+      case "clearErrors":
+        if (selected.id) {
+          clearReportedErrors(selected.id);
+        }
+        break;
+      case "reportedError":
+        // Errors whose hint names an action run that action
+        if (selected.id && selected.action) {
+          await runMenuAction(quickPick, selected.id, selected.action);
+        }
+        break;
+      case "diagnostics":
+        quickPick.hide();
+        await showDiagnostics();
+        break;
+      case "settings":
+        if (selected.id) {
+          quickPick.hide();
+          await openExtensionSettings(selected.id);
+        }
+        break;
+      case "logs":
+        quickPick.hide();
+        getLogChannel(selected.id)?.show();
+        break;
+      case "action":
+        if (selected.id && selected.action) {
+          await runMenuAction(quickPick, selected.id, selected.action);
+        }
+        break;
+    }
+  } catch (error) {
+    logger.error("Failed to handle menu selection:", error);
+  }
+}
+
+/**
+ * Handles a click on a button of an extension's row in the menu.
+ *
+ * @internal
+ */
+async function triggerMenuItemButton(
+  quickPick: vscode.QuickPick<MenuItem>,
+  event: vscode.QuickPickItemButtonEvent<MenuItem>
+): Promise<void> {
+  const extensionId = event.item.id;
+  if (!extensionId) {
+    return;
+  }
+
+  try {
+    const button = event.button as MenuItemButton;
+    if (button.action) {
+      await runMenuAction(quickPick, extensionId, button.action);
+    } else {
+      quickPick.hide();
+      await openExtensionSettings(extensionId);
+    }
+  } catch (error) {
+    logger.error("Failed to handle menu button:", error);
+  }
+}
+
+/**
+ * Runs an action from the menu. The menu stays open and shows
+ * a busy indicator while the action runs.
+ *
+ * @internal
+ */
+async function runMenuAction(
+  quickPick: vscode.QuickPick<MenuItem>,
+  extensionId: string,
+  action: ExtensionAction
+): Promise<void> {
+  quickPick.busy = true;
+  try {
+    await runExtensionAction(extensionId, action);
+  } finally {
+    quickPick.busy = false;
+  }
+
+  // The menu stays open; the action may have changed the metadata
+  if (menu === quickPick) {
+    renderMenu();
+  }
+}
+
+/**
+ * Runs an action of a registered extension: checks that it is enabled in
+ * the extension's current state, asks for confirmation if it has a confirm
+ * message, and executes it.
+ *
+ * @internal
+ */
+async function runExtensionAction(
+  extensionId: string,
+  action: ExtensionAction
+): Promise<void> {
+  const reason = getUnavailableReason(extensionId, action);
+  if (reason) {
+    logger.info(`Action not run (${action.command}): ${reason}`, {
+      operation: "runAction",
+      extensionId,
+    });
+    vscode.window.showInformationMessage(`${action.label}: ${reason}`);
+    return;
+  }
+
+  if (action.confirm) {
+    const choice = await vscode.window.showWarningMessage(
+      action.confirm,
+      { modal: true },
+      action.label
+    );
+    if (choice !== action.label) {
+      logger.info(`Action cancelled by user: ${action.command}`, {
+        operation: "runAction",
+        extensionId,
+      });
+      return;
+    }
+  }
+
+  recordRecentAction(extensionId, action);
+  await executeAction(extensionId, action);
+}
+
+/**
+ * Moves an action to the top of the recently used actions.
+ *
+ * @internal
+ */
+function recordRecentAction(
+  extensionId: string,
+  action: ExtensionAction
+): void {
+  recentActions = [
+    { extensionId, id: action.id, label: action.label },
+    ...recentActions.filter(
+      (recent) => !isSameRecentAction(recent, extensionId, action)
+    ),
+  ].slice(0, RECENT_ACTIONS_LIMIT);
+  saveRecentActions();
+}
+
+/**
+ * Whether a recently used action is the given action of an extension.
+ * Entries of actions with an `id` are matched by it, so relabelling the
+ * action keeps its place; other entries, including those stored before
+ * actions had IDs, are matched by label.
+ *
+ * @internal
+ */
+function isSameRecentAction(
+  recent: RecentAction,
+  extensionId: string,
+  action: { id?: string; label: string }
+): boolean {
+  if (recent.extensionId !== extensionId) {
+    return false;
+  }
+  return recent.id !== undefined
+    ? recent.id === action.id
+    : recent.label === action.label;
+}
+
+/**
+ * Returns the recently used actions whose extension is registered.
+ *
+ * Entries of extensions that are not registered are only hidden: they may
+ * not have registered yet, or be in the middle of an ownership handoff.
+ * Entries whose extension is registered but no longer has the action are
+ * removed.
+ *
+ * @internal
+ */
+function getRecentActions(): Array<
+  [string, ExtensionMetadata, ExtensionAction]
+> {
+  const available: Array<[string, ExtensionMetadata, ExtensionAction]> = [];
+  const remaining = recentActions.filter((recent) => {
+    const meta = activeExtensions.get(recent.extensionId);
+    if (!meta) {
+      return true;
+    }
+    const action = meta.actions?.find((a) =>
+      isSameRecentAction(recent, recent.extensionId, a)
+    );
+    if (action) {
+      available.push([recent.extensionId, meta, action]);
+    }
+    return action !== undefined;
+  });
+
+  if (remaining.length !== recentActions.length) {
+    recentActions = remaining;
+    saveRecentActions();
+  }
+  return available;
+}
+
+/**
+ * Writes the recently used actions to the extension context, if one is set.
+ *
+ * @internal
+ */
+function saveRecentActions(): void {
+  if (!globalState) {
+    return;
+  }
+  try {
+    Promise.resolve(
+      globalState.update(RECENT_ACTIONS_KEY, recentActions)
+    ).catch((error) => logger.error("Failed to save recent actions:", error));
+  } catch (error) {
+    logger.error("Failed to save recent actions:", error);
+  }
+}
+
+/**
+ * Explains why an action cannot be run in the extension's current state.
+ *
+ * @returns The reason, or undefined if the action is enabled
+ * @internal
+ */
+function getUnavailableReason(
+  extensionId: string,
+  action: ExtensionAction
+): string | undefined {
+  const condition = action.enabledWhen;
+  const meta = activeExtensions.get(extensionId);
+  if (!condition || !meta) {
+    return undefined;
+  }
+
+  const context = getActionContext(extensionId, meta);
+  if (condition.status && !condition.status.includes(context.status)) {
+    return `Not available while ${context.status}`;
+  }
+  if (condition.busy !== undefined && condition.busy !== context.busy) {
+    return condition.busy
+      ? "Only available while an operation is running"
+      : "Not available while an operation is running";
+  }
+  return undefined;
+}
+
+/**
+ * Builds the state that action conditions are evaluated against.
+ *
+ * @internal
+ */
+function getActionContext(
+  extensionId: string,
+  meta: ExtensionMetadata
+): ActionContext {
+  return {
+    status: getDisplayStatus(extensionId, meta),
+    busy: isBusy(extensionId, meta),
+  };
+}
+
+/**
+ * Whether an extension is running an operation: it is busy, starting,
+ * or reporting progress.
+ *
+ * @internal
+ */
+function isBusy(extensionId: string, meta: ExtensionMetadata): boolean {
+  return (
+    meta.status === "busy" ||
+    meta.status === "starting" ||
+    activeProgress.has(extensionId)
+  );
+}
+
+/**
+ * Executes the command of an action.
+ *
+ * The command is waited for up to the action's timeout. When the timeout
+ * passes the user is told that the action is still running, which is
+ * different from a failure: the command keeps running in the background.
+ * Cancelled actions are neither failures nor timeouts. The result returned
+ * by the command is applied when it finishes, even after the timeout.
+ *
+ * @internal
+ */
+async function executeAction(
+  extensionId: string,
+  action: ExtensionAction
+): Promise<void> {
+  const timeoutMs = action.timeoutMs ?? DEFAULT_ACTION_TIMEOUT_MS;
+  const startedAt = Date.now();
+  let cancelled = false;
+  let cmdPromise: Promise<unknown>;
+
+  if (action.cancellable) {
+    cmdPromise = Promise.resolve(
+      vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: action.label,
+          cancellable: true,
+        },
+        (_progress, token) => {
+          token.onCancellationRequested(() => {
+            cancelled = true;
+            logger.info(`Action cancelled: ${action.command}`, {
+              operation: "runAction",
+              extensionId,
+              durationMs: Date.now() - startedAt,
+            });
+          });
+          return vscode.commands.executeCommand(
+            action.command,
+            ...(action.arguments || []),
+            token
+          );
+        }
+      )
+    );
+  } else {
+    cmdPromise = Promise.resolve(
+      vscode.commands.executeCommand(
+        action.command,
+        ...(action.arguments || [])
+      )
+    );
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    // Race command execution with the timeout to prevent hangs
+    const finished = cmdPromise.then((result) => {
+      logger.info(`Action command completed: ${action.command}`, {
+        operation: "runAction",
+        extensionId,
+        durationMs: Date.now() - startedAt,
+      });
+      applyActionResult(extensionId, action, result);
+      return true;
+    });
+    const result =
+      timeoutMs === "none"
+        ? await finished
+        : await Promise.race([
+            finished,
+            new Promise<false>((resolve) => {
+              timer = setTimeout(() => resolve(false), timeoutMs);
+            }),
+          ]);
+
+    if (!result) {
+      logger.warn(
+        `Action command still running after ${timeoutMs}ms: ${action.command}`,
+        { operation: "runAction", extensionId }
+      );
+      // Keep reporting the outcome of the command that is still running
+      finished.catch((cmdError) => {
+        if (!cancelled) {
+          logger.error(
+            `Action command failed (${action.command}):`,
+            cmdError,
+            { extensionId }
+          );
+        }
+      });
+      const waited =
+        Number(timeoutMs) < 1000
+          ? `${timeoutMs}ms`
+          : `${Math.round(Number(timeoutMs) / 1000)}s`;
+      vscode.window.showWarningMessage(
+        `Action timed out: "${action.label}" is still running after ${waited}`
+      );
+      return;
+    }
+  } catch (cmdError) {
+    if (cancelled) {
+      return;
+    }
+    logger.error(
+      `Action command failed (${action.command}):`,
+      cmdError,
+      { extensionId }
+    );
+    vscode.window.showWarningMessage(
+      `Action failed: ${cmdError instanceof Error ? cmdError.message : String(cmdError)}`
+    );
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Applies the result returned by an action command to the extension's
+ * metadata and shows its message. Values that are not an ActionResult
+ * are ignored.
+ *
+ * @internal
+ */
+function applyActionResult(
+  extensionId: string,
+  action: ExtensionAction,
+  result: unknown
+): void {
+  if (typeof result !== "object" || result === null) {
+    return;
+  }
+
+  const { status, message, notify } = result as ActionResult;
+  if (status !== undefined) {
+    // Results arrive from other extensions, so the status is checked at runtime
+    if (
+      Object.prototype.hasOwnProperty.call(STATUS_SEVERITY, status) &&
+      (status as DisplayStatus) !== "not responding"
+    ) {
+      // The message describes the new status; without one, clear the old message
+      internalUpdate(extensionId, { status, statusMessage: message });
+    } else {
+      logger.warn(
+        `Ignoring invalid status from action ${action.command}: ${status}`,
+        { operation: "runAction", extensionId }
+      );
+    }
+  }
+
+  if (message && notify) {
+    if (notify === "error") {
+      vscode.window.showErrorMessage(message);
+    } else if (notify === "warning") {
+      vscode.window.showWarningMessage(message);
+    } else {
+      vscode.window.showInformationMessage(message);
+    }
+  }
+}
+
+/**
+ * Shows every action of every registered extension in one searchable picker
+ * and runs the selected one.
  *
- * When the last extension unregisters:
- * - The show menu command is disposed
- * - The status bar item is hidden (but not disposed, maintaining singleton)
+ * This is the command handler for mcp-acs.runAction. The owning extension is
+ * shown as the description, so typing its name finds all of its actions.
+ * Actions that are disabled in the extension's current state are left out.
  *
- * @param extensionId - Unique identifier for the extension to unregister
+ * @param extensionId - Runs this extension's action directly, without the picker
+ * @param label - Label of the action to run
+ *
+ * @internal
+ */
+async function runActionCommand(
+  extensionId?: string,
+  label?: string
+): Promise<void> {
+  try {
+    // Links in the tooltip run a specific action through this command
+    if (extensionId !== undefined) {
+      const action = activeExtensions
+        .get(extensionId)
+        ?.actions?.find((a) => a.label === label);
+      if (!action) {
+        logger.warn(`Action not found: ${extensionId} / ${label}`);
+        vscode.window.showWarningMessage(
+          `Action "${label}" is no longer available.`
+        );
+        return;
+      }
+      await runExtensionAction(extensionId, action);
+      return;
+    }
+
+    const items = buildPaletteItems();
+    logger.debug(`Showing action palette with ${items.length} actions`);
+
+    if (items.length === 0) {
+      vscode.window.showInformationMessage(
+        "No ACS extension has registered any actions."
+      );
+      return;
+    }
+
+    const selected = await vscode.window.showQuickPick(items, {
+      title: "Run ACS Action",
+      placeHolder: "Search actions of all ACS extensions",
+      matchOnDescription: true,
+      matchOnDetail: true,
+    });
+    if (selected?.id && selected.action) {
+      await runExtensionAction(selected.id, selected.action);
+    }
+  } catch (error) {
+    logger.error("Failed to show action palette:", error);
+    vscode.window.showErrorMessage("Failed to display ACS actions");
+  }
+}
+
+/**
+ * Builds the action palette items: every action of every registered
+ * extension, in menu order.
+ *
+ * @internal
+ */
+function buildPaletteItems(): MenuItem[] {
+  const items: MenuItem[] = [];
+  for (const [id, meta] of getGroupedExtensions()) {
+    for (const action of meta.actions || []) {
+      if (getUnavailableReason(id, action)) {
+        continue;
+      }
+      items.push({
+        menuKind: "action",
+        id,
+        action,
+        label: action.label,
+        description: meta.displayName || id,
+        detail: action.description,
+      });
+    }
+  }
+  return items;
+}
+
+/**
+ * Opens the settings UI filtered to an extension's settings.
+ *
+ * @internal
+ */
+async function openExtensionSettings(extensionId: string): Promise<void> {
+  await vscode.commands.executeCommand(
+    "workbench.action.openSettings",
+    activeExtensions.get(extensionId)?.settingsQuery || extensionId
+  );
+}
+
+/**
+ * Builds the buttons of an extension's row: its enabled inline actions
+ * followed by a settings button.
+ *
+ * @internal
+ */
+function buildItemButtons(
+  extensionId: string,
+  meta: ExtensionMetadata
+): MenuItemButton[] {
+  return [
+    ...(meta.actions || [])
+      .filter(
+        (action) =>
+          action.inline && !getUnavailableReason(extensionId, action)
+      )
+      .map((action) => ({
+        iconPath: new vscode.ThemeIcon(action.icon || "play"),
+        tooltip: action.label,
+        action,
+      })),
+    { iconPath: new vscode.ThemeIcon("gear"), tooltip: "Open Settings" },
+  ];
+}
+
+/**
+ * Builds the menu item of an action. Disabled actions stay visible,
+ * greyed out with the reason.
+ *
+ * @internal
+ */
+function buildActionItem(
+  extensionId: string,
+  action: ExtensionAction,
+  description: string | undefined
+): MenuItem {
+  const reason = getUnavailableReason(extensionId, action);
+  return reason
+    ? {
+        menuKind: "unavailableAction",
+        id: extensionId,
+        action,
+        label: `$(circle-slash) ${action.label}`,
+        description,
+        detail: reason,
+      }
+    : {
+        menuKind: "action",
+        id: extensionId,
+        action,
+        label: action.label,
+        description,
+      };
+}
+
+/**
+ * Builds the action items of an extension's menu page. "Show Logs" opens the
+ * channel the extension's messages go to, its own or the shared one.
+ *
+ * @internal
+ */
+function buildActionItems(
+  extensionId: string,
+  meta: ExtensionMetadata
+): MenuItem[] {
+  const errors = reportedErrors.get(extensionId) || [];
+  const lastError = errors.length > 0 ? errors[errors.length - 1] : undefined;
+  const logChannel = getLogChannel(extensionId);
+  return [
+    ...(lastError
+      ? [
+          {
+            menuKind: "errors" as const,
+            id: extensionId,
+            label: `$(bell-dot) Errors (${errors.length})`,
+            description: lastError.message,
+          },
+        ]
+      : []),
+    ...(meta.actions || []).map((action) =>
+      buildActionItem(extensionId, action, action.description)
+    ),
+    ...(logChannel
+      ? [
+          {
+            menuKind: "logs" as const,
+            id: extensionId,
+            label: "$(output) Show Logs",
+            description: logChannel.name,
+          },
+        ]
+      : []),
+    {
+      menuKind: "settings",
+      id: extensionId,
+      label: "Open Settings",
+      description: "Configure extension settings",
+    },
+  ];
+}
+
+/**
+ * Builds the items of an extension's errors page, newest error first.
+ *
+ * @internal
+ */
+function buildErrorItems(
+  extensionId: string,
+  meta: ExtensionMetadata
+): MenuItem[] {
+  const errors = reportedErrors.get(extensionId) || [];
+  return [
+    ...errors
+      .slice()
+      .reverse()
+      .map((error): MenuItem => {
+        const action = error.actionHint
+          ? meta.actions?.find(
+              (candidate) =>
+                candidate.label === error.actionHint &&
+                !getUnavailableReason(extensionId, candidate)
+            )
+          : undefined;
+        return {
+          menuKind: "reportedError",
+          id: extensionId,
+          action,
+          label: `${STATUS_ICONS[error.severity]} ${error.message}`,
+          description: new Date(error.timestamp).toLocaleTimeString(),
+          detail: error.actionHint
+            ? `${action ? "$(play)" : "$(lightbulb)"} ${error.actionHint}`
+            : undefined,
+        };
+      }),
+    {
+      menuKind: "separator",
+      label: "",
+      kind: vscode.QuickPickItemKind.Separator,
+    },
+    {
+      menuKind: "clearErrors",
+      id: extensionId,
+      label: "$(clear-all) Clear Errors",
+      description: "Restore the extension's own status",
+    },
+  ];
+}
+
+/**
+ * Builds the first-level menu items from the current extension metadata.
+ *
+ * @returns Quick pick items for the recently used actions, every registered
+ *   extension and the diagnostics entry
+ * @internal
+ */
+function buildMenuItems(): MenuItem[] {
+  const items: MenuItem[] = [];
+
+  // Recently used actions come first, across all extensions
+  const recent = getRecentActions();
+  if (recent.length > 0) {
+    items.push({
+      menuKind: "separator",
+      label: "Recent",
+      kind: vscode.QuickPickItemKind.Separator,
+    });
+    for (const [id, meta, action] of recent) {
+      items.push(buildActionItem(id, action, meta.displayName || id));
+    }
+  }
+
+  // Group headers are only shown once at least one extension has a group
+  const grouped = Array.from(activeExtensions.values()).some(
+    (meta) => meta.group
+  );
+  // Ungrouped extensions get their own header, even next to a group that
+  // happens to be called "Other"
+  const otherHeader = Array.from(activeExtensions.values()).some(
+    (meta) => meta.group === OTHER_GROUP
+  )
+    ? UNGROUPED_HEADER
+    : OTHER_GROUP;
+  let currentGroup: string | null | undefined = null;
+  if (recent.length > 0 && !grouped) {
+    items.push({
+      menuKind: "separator",
+      label: "Extensions",
+      kind: vscode.QuickPickItemKind.Separator,
+    });
+  }
+
+  for (const [id, meta] of getGroupedExtensions()) {
+    const group = meta.group || undefined;
+    if (grouped && group !== currentGroup) {
+      currentGroup = group;
+      items.push({
+        menuKind: "separator",
+        label: group ?? otherHeader,
+        kind: vscode.QuickPickItemKind.Separator,
+      });
+    }
+
+    const label = meta.displayName || id;
+    const status = getDisplayStatus(id, meta);
+    const statusMessage = getDisplayStatusMessage(id, meta);
+    const icon = status !== "ok" ? `${STATUS_ICONS[status]} ` : "";
+    const progress = activeProgress.get(id);
+    const reportedCount = reportedErrors.get(id)?.length || 0;
+    const details = [
+      meta.status || status !== "ok"
+        ? `Status: ${status}${statusMessage ? ` - ${statusMessage}` : ""}`
+        : undefined,
+      progress ? `$(sync~spin) ${formatProgress(progress)}` : undefined,
+      reportedCount > 0 ? `$(bell-dot) ${reportedCount} error(s)` : undefined,
+    ].filter((text): text is string => !!text);
+    items.push({
+      menuKind: "extension",
+      id,
+      label: `${icon}${label}`,
+      description: id,
+      detail: details.length > 0 ? details.join(" · ") : undefined,
+      buttons: buildItemButtons(id, meta),
+    });
+  }
+
+  items.push({
+    menuKind: "separator",
+    label: "",
+    kind: vscode.QuickPickItemKind.Separator,
+  });
+  items.push({
+    menuKind: "diagnostics",
+    label: "Show Diagnostics",
+    description: "Troubleshooting info",
+  });
+
+  return items;
+}
+
+/**
+ * Formats diagnostic information as a human-readable string.
+ *
+ * @param info - Diagnostic information to format
+ * @returns Formatted diagnostic output
+ * @internal
+ */
+function formatDiagnosticOutput(info: DiagnosticInfo): string {
+  const lines = [
+    "=== ACS Shared Status Bar Diagnostics ===",
+    "",
+    `Active Extension Count: ${info.activeExtensionCount}`,
+    `Status Bar Exists: ${info.statusBarExists}`,
+    `Status Bar Visible: ${info.statusBarVisible}`,
+    `Command Registered: ${info.commandRegistered}`,
+    `Register Command Registered: ${info.registerCommandRegistered}`,
+    "",
+    "Registered Extensions:",
+  ];
+
+  if (info.extensions.length === 0) {
+    lines.push("  (none)");
+  } else {
+    info.extensions.forEach((ext) => {
+      lines.push(
+        `  - ${ext.id} [${ext.status}]${
+          ext.statusMessage ? ` ${ext.statusMessage}` : ""
+        }`
+      );
+    });
+  }
+
+  lines.push("");
+  lines.push(`Errors (${info.errors.length}):`);
+  if (info.errors.length === 0) {
+    lines.push("  (none)");
+  } else {
+    info.errors.forEach((record) => {
+      lines.push(`  - ${formatErrorRecord(record)}`);
+    });
+  }
+
+  lines.push("");
+  lines.push("===========================================");
+
+  return lines.join("\n");
+}
+
+/**
+ * Whether an error record has a stack trace.
+ *
+ * @internal
+ */
+function hasStack(
+  record: ErrorRecord
+): record is ErrorRecord & { stack: string } {
+  return !!record.stack;
+}
+
+/**
+ * Formats an error record as a single line.
+ *
+ * @internal
+ */
+function formatErrorRecord(record: ErrorRecord): string {
+  return `[${record.timestamp}] ${record.operation}${
+    record.extensionId ? ` (${record.extensionId})` : ""
+  }: ${record.message}`;
+}
+
+/**
+ * Shows diagnostic information about the shared status bar.
+ *
+ * This is the command handler for mcp-acs.diagnostics, which displays
+ * detailed information about the current state for troubleshooting.
+ *
+ * @internal
+ */
+async function showDiagnostics(): Promise<void> {
+  try {
+    const diagnosticInfo = getDiagnosticInfo();
+    const output = formatDiagnosticOutput(diagnosticInfo);
+
+    // Output to console
+    console.log(output);
+
+    // Output to output channel if available
+    if (outputChannel) {
+      outputChannel.appendLine(output);
+      outputChannel.show();
+    }
+
+    // Show information message to user
+    vscode.window.showInformationMessage(
+      `ACS Diagnostics: ${diagnosticInfo.activeExtensionCount} extension(s) active. Check output channel for details.`
+    );
+
+    logger.debug("Diagnostics displayed successfully");
+  } catch (error) {
+    logger.error("Failed to show diagnostics:", error);
+    vscode.window.showErrorMessage("Failed to display diagnostics");
+  }
+}
+
+/**
+ * Format of exported diagnostics.
+ */
+export type DiagnosticsFormat = "json" | "markdown" | "text";
+
+/**
+ * Where exported diagnostics go: a new untitled editor or the clipboard.
+ */
+export type DiagnosticsDestination = "editor" | "clipboard";
+
+/**
+ * Full diagnostic snapshot produced by exportDiagnostics.
+ */
+export interface DiagnosticsSnapshot {
+  /** When the snapshot was taken (ISO timestamp) */
+  timestamp: string;
+
+  /** The copy of the library that produced the snapshot */
+  owner: {
+    instanceId: string;
+    isOwner: boolean;
+    libraryVersion: string;
+    protocolVersion: number;
+  };
+
+  /** Same information as getDiagnosticInfo */
+  summary: DiagnosticInfo;
+
+  /** Full state of each registered extension, most severe first */
+  extensions: Array<{
+    id: string;
+    /** Library version of the registering copy, "unknown" for older copies */
+    libraryVersion: string;
+    status: DisplayStatus;
+    registeredAt?: string;
+    updatedAt?: string;
+    lastHeartbeat?: string;
+    progress?: string;
+    /** Errors the extension reported with reportError, oldest first */
+    reportedErrors: Array<
+      Omit<ReportedError, "timestamp"> & { timestamp: string }
+    >;
+    /** Name of the extension's own output channel, if it set one */
+    outputChannel?: string;
+    metadata: Omit<ExtensionMetadata, "outputChannel">;
+  }>;
+
+  /** Most recent log lines, oldest first */
+  log: string[];
+}
+
+/**
+ * Exports a full diagnostic snapshot for attaching to bug reports.
+ *
+ * The snapshot contains the owner's identity, the library version of each
+ * client, the metadata and timestamps of each extension, the error history
+ * and the recent log. Copies of the library that do not own the status bar ask
+ * the owner for its snapshot through the mcp-acs.exportDiagnostics command.
+ *
+ * @param format - Output format (default "json")
+ * @param destination - Open the snapshot in an untitled editor (default) or
+ *   copy it to the clipboard
+ * @returns The exported text, or undefined if the export failed
  *
  * @example
  * ```typescript
- * export function deactivate() {
- *   unregisterExtension("my-extension-id");
- * }
+ * await exportDiagnostics("markdown", "clipboard");
  * ```
  */
-export async function unregisterExtension(extensionId: string): Promise<void> {
+export async function exportDiagnostics(
+  format: DiagnosticsFormat = "json",
+  destination: DiagnosticsDestination = "editor"
+): Promise<string | undefined> {
+  if (!registerCommandDisposable) {
+    try {
+      const allCommands = await listCommandsFor("mcp-acs.exportDiagnostics");
+      if (allCommands.includes("mcp-acs.exportDiagnostics")) {
+        return await forwardToOwner<string | undefined>(
+          "mcp-acs.exportDiagnostics",
+          format,
+          destination
+        );
+      }
+    } catch (error) {
+      logger.error("Failed to export diagnostics through the owner:", error);
+    }
+  }
+  return writeDiagnostics(format, destination);
+}
+
+/**
+ * Command handler for mcp-acs.exportDiagnostics. Asks for the format and
+ * destination unless they are passed as arguments.
+ *
+ * @internal
+ */
+async function exportDiagnosticsCommand(
+  format?: DiagnosticsFormat,
+  destination?: DiagnosticsDestination
+): Promise<string | undefined> {
   try {
-    const commandsPromise = vscode.commands.getCommands(true);
-    const timeoutPromise = new Promise<string[]>((_, reject) =>
-      setTimeout(() => reject(new Error('getCommands timeout')), 3000)
-    );
-    const allCommands = await Promise.race([commandsPromise, timeoutPromise]);
-    if (allCommands.includes("mcp-acs.unregisterExtension")) {
-      const execPromise = vscode.commands.executeCommand(
-        "mcp-acs.unregisterExtension",
-        extensionId
+    if (!format) {
+      const picked = await vscode.window.showQuickPick(
+        [
+          { label: "JSON", format: "json" as const },
+          { label: "Markdown", format: "markdown" as const },
+          { label: "Text", format: "text" as const },
+        ],
+        { placeHolder: "Export ACS diagnostics as" }
       );
-      const execTimeout = new Promise<void>((_, reject) =>
-        setTimeout(() => reject(new Error('unregisterExtension command timeout')), 3000)
+      if (!picked) {
+        return undefined;
+      }
+      format = picked.format;
+    }
+    if (!destination) {
+      const picked = await vscode.window.showQuickPick(
+        [
+          { label: "Open in Editor", destination: "editor" as const },
+          { label: "Copy to Clipboard", destination: "clipboard" as const },
+        ],
+        { placeHolder: "Export ACS diagnostics to" }
       );
-      await Promise.race([execPromise, execTimeout]);
-      log(`Unregistered ${extensionId} via owner`);
-      return;
+      if (!picked) {
+        return undefined;
+      }
+      destination = picked.destination;
     }
-    // Command not registered — fall through to local unregister
-    internalUnregister(extensionId);
+    return await writeDiagnostics(format, destination);
   } catch (error) {
-    // If command fails/times out (e.g. we are owner, or owner died), try local unregister
-    internalUnregister(extensionId);
+    logger.error("Failed to export diagnostics:", error);
+    vscode.window.showErrorMessage("Failed to export ACS diagnostics");
+    return undefined;
   }
 }
 
-function internalUnregister(extensionId: string): void {
-  // Defensive check: only proceed if the extension was actually registered
-  const wasRegistered = activeExtensions.has(extensionId);
-  if (!wasRegistered) {
-    // Safe unregistration: log but don't error on non-existent extension
-    log(`Extension not registered, ignoring unregister: ${extensionId}`);
-    return;
+/**
+ * Formats the snapshot of this copy and opens or copies it.
+ *
+ * @internal
+ */
+async function writeDiagnostics(
+  format: DiagnosticsFormat,
+  destination: DiagnosticsDestination
+): Promise<string | undefined> {
+  const startedAt = Date.now();
+  try {
+    const content = formatDiagnosticsSnapshot(
+      createDiagnosticsSnapshot(),
+      format
+    );
+    if (destination === "clipboard") {
+      await vscode.env.clipboard.writeText(content);
+      vscode.window.showInformationMessage(
+        "ACS diagnostics copied to the clipboard."
+      );
+    } else {
+      const document = await vscode.workspace.openTextDocument({
+        content,
+        language:
+          format === "json"
+            ? "json"
+            : format === "markdown"
+            ? "markdown"
+            : "plaintext",
+      });
+      await vscode.window.showTextDocument(document);
+    }
+    logger.info(`Diagnostics exported (${format}, ${destination})`, {
+      operation: "exportDiagnostics",
+      durationMs: Date.now() - startedAt,
+    });
+    return content;
+  } catch (error) {
+    logger.error("Failed to export diagnostics:", error);
+    vscode.window.showErrorMessage("Failed to export ACS diagnostics");
+    return undefined;
   }
+}
 
-  // Remove the extension from the Set
-  activeExtensions.delete(extensionId);
-  log(
-    `Extension unregistered: ${extensionId} (remaining: ${activeExtensions.size})`
-  );
+/**
+ * Takes a full diagnostic snapshot of this copy of the library.
+ *
+ * @internal
+ */
+function createDiagnosticsSnapshot(): DiagnosticsSnapshot {
+  const toIso = (time?: number) =>
+    time !== undefined ? new Date(time).toISOString() : undefined;
+  return {
+    timestamp: new Date().toISOString(),
+    owner: {
+      instanceId,
+      isOwner: registerCommandDisposable !== undefined,
+      libraryVersion: LIBRARY_VERSION,
+      protocolVersion: PROTOCOL_VERSION,
+    },
+    summary: getDiagnosticInfo(),
+    extensions: getSortedExtensions().map(([id, meta]) => {
+      // The channel object is not serializable, only its name is exported
+      const { outputChannel: channel, ...metadata } = meta;
+      const record = extensionRecords.get(id);
+      const progress = activeProgress.get(id);
+      return {
+        id,
+        libraryVersion: localExtensions.has(id)
+          ? LIBRARY_VERSION
+          : record?.libraryVersion || "unknown",
+        status: getDisplayStatus(id, meta),
+        registeredAt: toIso(record?.registeredAt),
+        updatedAt: toIso(record?.updatedAt),
+        lastHeartbeat: toIso(heartbeats.get(id)?.lastSeen),
+        progress: progress ? formatProgress(progress) : undefined,
+        reportedErrors: (reportedErrors.get(id) || []).map((error) => ({
+          ...error,
+          timestamp: new Date(error.timestamp).toISOString(),
+        })),
+        outputChannel: channel?.name,
+        metadata: toSerializableMetadata(metadata, id),
+      };
+    }),
+    log: [...logTail],
+  };
+}
 
-  // Dispose command when last extension unregisters
-  if (activeExtensions.size === 0 && commandDisposable) {
+/**
+ * Returns metadata that JSON.stringify accepts, so one extension with
+ * circular or BigInt values cannot break the export. Fields and action
+ * arguments that cannot be serialized are replaced with "[unserializable]".
+ *
+ * @internal
+ */
+function toSerializableMetadata(
+  metadata: Omit<ExtensionMetadata, "outputChannel">,
+  extensionId: string
+): Omit<ExtensionMetadata, "outputChannel"> {
+  const isSerializable = (value: unknown) => {
     try {
-      commandDisposable.dispose();
-      commandDisposable = undefined;
-      log("Command disposed: mcp-acs.showMenu");
+      JSON.stringify(value);
+      return true;
     } catch (error) {
-      logError("Failed to dispose mcp-acs.showMenu command:", error);
+      return false;
+    }
+  };
+  const lost: string[] = [];
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(metadata)) {
+    if (key === "actions" && Array.isArray(value)) {
+      result[key] = (value as ExtensionAction[]).map((action) => {
+        if (isSerializable(action)) {
+          return action;
+        }
+        lost.push(`arguments of action "${action.label}"`);
+        return { ...action, arguments: ["[unserializable]"] };
+      });
+    } else if (isSerializable(value)) {
+      result[key] = value;
+    } else {
+      lost.push(key);
+      result[key] = "[unserializable]";
     }
   }
+  if (lost.length > 0) {
+    logger.warn(`Exporting ${lost.join(", ")} as "[unserializable]"`, {
+      extensionId,
+    });
+  }
+  return result as Omit<ExtensionMetadata, "outputChannel">;
+}
 
-  // Dispose register command when last extension unregisters
-  if (activeExtensions.size === 0 && registerCommandDisposable) {
-    try {
-      registerCommandDisposable.dispose();
-      registerCommandDisposable = undefined;
-      log("Command disposed: mcp-acs.registerExtension");
-    } catch (error) {
-      logError("Failed to dispose mcp-acs.registerExtension command:", error);
-    }
+/**
+ * Formats a diagnostic snapshot.
+ *
+ * @internal
+ */
+function formatDiagnosticsSnapshot(
+  snapshot: DiagnosticsSnapshot,
+  format: DiagnosticsFormat
+): string {
+  if (format === "json") {
+    return JSON.stringify(snapshot, null, 2);
   }
 
-  // Dispose unregister command when last extension unregisters
-  if (activeExtensions.size === 0 && unregisterCommandDisposable) {
-    try {
-      unregisterCommandDisposable.dispose();
-      unregisterCommandDisposable = undefined;
-      log("Command disposed: mcp-acs.unregisterExtension");
-    } catch (error) {
-      logError("Failed to dispose mcp-acs.unregisterExtension command:", error);
+  const owner = `${snapshot.owner.instanceId} (library ${
+    snapshot.owner.libraryVersion
+  }, protocol ${snapshot.owner.protocolVersion}${
+    snapshot.owner.isOwner ? ", status bar owner" : ""
+  })`;
+
+  if (format === "text") {
+    const lines = [
+      formatDiagnosticOutput(snapshot.summary),
+      "",
+      `Exported: ${snapshot.timestamp}`,
+      `Instance: ${owner}`,
+      "",
+      "Extension Details:",
+    ];
+    if (snapshot.extensions.length === 0) {
+      lines.push("  (none)");
+    }
+    for (const ext of snapshot.extensions) {
+      lines.push(`  - ${ext.id} [${ext.status}] library ${ext.libraryVersion}`);
+      lines.push(
+        `    registered: ${ext.registeredAt || "-"}, updated: ${
+          ext.updatedAt || "-"
+        }, last heartbeat: ${ext.lastHeartbeat || "-"}`
+      );
+      if (ext.progress) {
+        lines.push(`    progress: ${ext.progress}`);
+      }
+      if (ext.outputChannel) {
+        lines.push(`    output channel: ${ext.outputChannel}`);
+      }
+      lines.push(`    metadata: ${JSON.stringify(ext.metadata)}`);
     }
+    const stacks = snapshot.summary.errors.filter(hasStack);
+    if (stacks.length > 0) {
+      lines.push("", "Error Stacks:");
+      for (const record of stacks) {
+        lines.push(`  - ${formatErrorRecord(record)}`);
+        lines.push(...record.stack.split("\n").map((line) => `    ${line}`));
+      }
+    }
+    lines.push("", "Recent Log:", ...snapshot.log.map((line) => `  ${line}`));
+    return lines.join("\n");
   }
 
-  // Update status bar visibility based on new count
-  updateStatusBar();
+  const cell = (text?: string) =>
+    text ? text.replace(/\|/g, "\\|").replace(/\n/g, " ") : "-";
+  const lines = [
+    "# ACS Shared Status Bar Diagnostics",
+    "",
+    `- **Exported:** ${snapshot.timestamp}`,
+    `- **Instance:** ${owner}`,
+    `- **Active extensions:** ${snapshot.summary.activeExtensionCount}`,
+    `- **Status bar:** ${
+      snapshot.summary.statusBarExists ? "exists" : "missing"
+    }, ${snapshot.summary.statusBarVisible ? "visible" : "hidden"}`,
+    "",
+    "## Extensions",
+    "",
+    "| Extension | Status | Library | Registered | Updated | Last heartbeat | Progress |",
+    "|---|---|---|---|---|---|---|",
+    ...snapshot.extensions.map(
+      (ext) =>
+        `| ${cell(ext.id)} | ${ext.status} | ${cell(ext.libraryVersion)} | ${cell(
+          ext.registeredAt
+        )} | ${cell(ext.updatedAt)} | ${cell(ext.lastHeartbeat)} | ${cell(
+          ext.progress
+        )} |`
+    ),
+    "",
+    "### Metadata",
+    "",
+    "```json",
+    JSON.stringify(
+      Object.fromEntries(snapshot.extensions.map((ext) => [ext.id, ext.metadata])),
+      null,
+      2
+    ),
+    "```",
+    "",
+    "## Errors",
+    "",
+    ...(snapshot.summary.errors.length > 0
+      ? [
+          "| Time | Operation | Extension | Message |",
+          "|---|---|---|---|",
+          ...snapshot.summary.errors.map(
+            (record) =>
+              `| ${record.timestamp} | ${cell(record.operation)} | ${cell(
+                record.extensionId
+              )} | ${cell(record.message)} |`
+          ),
+          ...snapshot.summary.errors
+            .filter(hasStack)
+            .flatMap((record) => [
+              "",
+              `**${cell(record.operation)}** (${record.timestamp})`,
+              "",
+              "```",
+              record.stack,
+              "```",
+            ]),
+        ]
+      : ["(none)"]),
+    "",
+    "## Recent Log",
+    "",
+    "```",
+    ...snapshot.log,
+    "```",
+  ];
+  return lines.join("\n");
 }
 
 /**
- * Shows the quick pick menu with all registered extensions.
+ * Updates the status bar item based on the current extension count.
  *
- * This is the command handler for mcp-acs.showMenu, which is invoked when
- * the user clicks on the status bar item.
+ * This function implements the core singleton pattern logic:
+ *
+ * **When count is 0:**
+ * - Hides the status bar item (if it exists)
+ * - Does NOT dispose the item (maintains singleton)
+ *
+ * **When count > 0 and status bar doesn't exist:**
+ * - Creates the singleton status bar item
+ * - Logs creation with full details
+ * - Defensive check: verifies creation succeeded
+ *
+ * **When count > 0 and status bar exists:**
+ * - Reuses the existing status bar item (singleton pattern)
+ * - Updates text and tooltip to reflect current count
+ * - Reflects the worst extension status (error > warning > ok) in the icon,
+ *   text suffix and background color
+ * - Logs reuse to confirm singleton behavior
+ *
+ * The defensive checks in this function prevent the status bar doubling bug
+ * by ensuring we never create a second status bar item.
  *
  * @internal
  */
-async function showMenuCommand(): Promise<void> {
-  try {
-    log(`Showing menu with ${activeExtensions.size} extensions`);
+function updateStatusBar(): void {
+  if (activeExtensions.size === 0) {
+    // Hide status bar when no extensions are active
+    if (statusBarItem) {
+      logger.info("Hiding status bar (no active extensions)");
+      try {
+        statusBarItem.hide();
+        // Verify visibility state after hide
+        logger.trace("Status bar hidden successfully");
+      } catch (error) {
+        logger.error("Failed to hide status bar item:", error);
+      }
+    }
+    return;
+  }
 
-    if (activeExtensions.size === 0) {
-      vscode.window.showInformationMessage("No ACS extensions are currently active.");
+  // SINGLETON PATTERN: Defensive check to prevent duplicate status bar items
+  // This is the key fix for the status bar doubling bug
+  if (!statusBarItem) {
+    // Status bar doesn't exist - create it (first extension registering)
+    try {
+      logger.debug(
+        `Creating status bar item (active extensions: ${activeExtensions.size})`
+      );
+      statusBarSettings = readStatusBarSettings();
+      statusBarItem = vscode.window.createStatusBarItem(
+        "mcp-acs.shared-status",
+        statusBarSettings.alignment,
+        statusBarSettings.priority
+      );
+
+      // Defensive check: verify creation succeeded
+      if (!statusBarItem) {
+        logger.error(
+          "Failed to create status bar item:",
+          "Status bar item creation returned undefined"
+        );
+        return;
+      }
+
+      logger.info(
+        `Status bar item created successfully (ID: mcp-acs.shared-status, alignment: ${
+          statusBarSettings.alignment === vscode.StatusBarAlignment.Left
+            ? "Left"
+            : "Right"
+        }, priority: ${statusBarSettings.priority})`
+      );
+      ensureConfigurationListener();
+      // Always set the command — even if we didn't register it ourselves,
+      // VS Code will route the click to whichever extension owns the command.
+      statusBarItem.command = "mcp-acs.showMenu";
+    } catch (error) {
+      logger.error("Failed to create status bar item:", error);
       return;
     }
+  } else {
+    // SINGLETON PATTERN: Status bar already exists - reuse it
+    // This prevents creating duplicate status bar items
+    logger.debug(
+      `Reusing existing status bar item (active extensions: ${activeExtensions.size})`
+    );
+  }
 
-    const items: vscode.QuickPickItem[] = [];
+  // Update status bar content to reflect the worst status across all extensions
+  const health = getAggregateHealth();
+  if (health.status === "error") {
+    statusBarItem.text = `$(error) ACS ${health.count}✖`;
+    statusBarItem.backgroundColor = new vscode.ThemeColor(
+      "statusBarItem.errorBackground"
+    );
+  } else if (health.status === "warning") {
+    statusBarItem.text = `$(warning) ACS ${health.count}⚠`;
+    statusBarItem.backgroundColor = new vscode.ThemeColor(
+      "statusBarItem.warningBackground"
+    );
+  } else if (health.status === "starting" || health.status === "busy") {
+    statusBarItem.text = `${STATUS_ICONS[health.status]} ACS ${health.count}`;
+    statusBarItem.backgroundColor = undefined;
+  } else {
+    statusBarItem.text = "$(layers) ACS";
+    statusBarItem.backgroundColor = undefined;
+  }
 
-    for (const [id, meta] of activeExtensions) {
-      const label = meta.displayName || id;
-      const icon =
-        meta.status === "error"
-          ? "$(error) "
-          : meta.status === "warning"
-          ? "$(warning) "
-          : "";
-      items.push({
-        label: `${icon}${label}`,
-        description: id,
-        detail: meta.status ? `Status: ${meta.status}` : undefined,
-      });
+  // Running operations show a spinner with the overall completion percentage.
+  // Errors and warnings keep their icon so they are not hidden by progress.
+  const progress = getAggregateProgress();
+  if (progress) {
+    const percent = progress.percent !== undefined ? ` ${progress.percent}%` : "";
+    if (health.status === "error" || health.status === "warning") {
+      statusBarItem.text += ` $(sync~spin)${percent}`;
+    } else {
+      statusBarItem.text = `$(sync~spin) ACS${percent}`;
     }
+  }
 
-    items.push({ label: "", kind: vscode.QuickPickItemKind.Separator });
-    items.push({
-      label: "Show Diagnostics",
-      description: "Troubleshooting info",
-    });
+  // Errors reported by extensions are counted until the user clears them
+  const reportedCount = getReportedErrorCount();
+  if (reportedCount > 0) {
+    statusBarItem.text += ` $(bell-dot) ${reportedCount}`;
+  }
+
+  // A user or owner supplied template replaces the built-in text;
+  // the background color still reflects the health
+  const template = readStatusBarSettings().textTemplate || textTemplate;
+  if (template) {
+    statusBarItem.text = renderTextTemplate(template);
+  }
+  statusBarItem.tooltip = buildTooltip();
 
-    let selected: vscode.QuickPickItem | undefined;
+  if (!shouldShowStatusBar()) {
+    logger.info(
+      `Hiding status bar (visibility: ${readStatusBarSettings().visibility})`
+    );
     try {
-      selected = await vscode.window.showQuickPick(items, {
-        placeHolder: "Active ACS Extensions",
-        canPickMany: false,
-      });
-    } catch (quickPickError) {
-      logError("Quick pick failed:", quickPickError);
-      return;
+      statusBarItem.hide();
+    } catch (error) {
+      logger.error("Failed to hide status bar item:", error);
     }
+    return;
+  }
 
-    if (selected) {
-      if (selected.label === "Show Diagnostics") {
-        showDiagnostics();
-      } else {
-        const selectedId = selected.description;
-        if (selectedId) {
-          const meta = activeExtensions.get(selectedId);
-          const actions = meta?.actions || [];
-
-          const actionItems: vscode.QuickPickItem[] = [
-            ...actions.map((a) => ({
-              label: a.label,
-              description: a.description,
-              detail: a.command, // Store command in detail
-            })),
-            {
-              label: "Open Settings",
-              description: "Configure extension settings",
-              detail: "workbench.action.openSettings",
-            },
-          ];
-
-          const selectedAction = await vscode.window.showQuickPick(
-            actionItems,
-            {
-              placeHolder: `Actions for ${meta?.displayName || selectedId}`,
-              canPickMany: false,
-            }
-          );
-
-          if (selectedAction && selectedAction.detail) {
-            if (selectedAction.detail === "workbench.action.openSettings") {
-              await vscode.commands.executeCommand(
-                "workbench.action.openSettings",
-                meta?.settingsQuery || selectedId
-              );
-            } else {
-              // Find the action to get arguments
-              const action = actions.find(
-                (a) =>
-                  a.command === selectedAction.detail &&
-                  a.label === selectedAction.label
-              );
-              try {
-                // Race command execution with a timeout to prevent hangs
-                const cmdPromise = vscode.commands.executeCommand(
-                  selectedAction.detail,
-                  ...(action?.arguments || [])
-                );
-                const cmdTimeout = new Promise<void>((_, reject) =>
-                  setTimeout(() => reject(new Error('Action command timeout')), 10000)
-                );
-                await Promise.race([cmdPromise, cmdTimeout]);
-              } catch (cmdError) {
-                logError(`Action command failed (${selectedAction.detail}):`, cmdError);
-                vscode.window.showWarningMessage(
-                  `Action failed: ${cmdError instanceof Error ? cmdError.message : String(cmdError)}`
-                );
-              }
-            }
-          }
-        }
-      }
-    }
+  logger.info(
+    `Showing status bar with ${activeExtensions.size} active extension(s)`
+  );
+  try {
+    statusBarItem.show();
+    // Verify visibility state after show
+    logger.trace("Status bar shown successfully");
   } catch (error) {
-    logError("Failed to show quick pick menu:", error);
-    vscode.window.showErrorMessage("Failed to display ACS extensions menu");
+    logger.error("Failed to show status bar item:", error);
   }
 }
 
 /**
- * Formats diagnostic information as a human-readable string.
+ * Escapes characters that would otherwise be interpreted as markdown
+ * (including the table cell separator) in user supplied text.
  *
- * @param info - Diagnostic information to format
- * @returns Formatted diagnostic output
  * @internal
  */
-function formatDiagnosticOutput(info: DiagnosticInfo): string {
+function escapeMarkdown(text: string): string {
+  return text.replace(/[\\`*_{}[\]()#+\-.!|<>$]/g, "\\$&");
+}
+
+/**
+ * Builds the status bar tooltip listing every registered extension.
+ *
+ * The tooltip is a table with each extension's status icon, display name,
+ * optional detail line and its actions as `command:` links. Only the
+ * registered action commands are trusted, so the hover cannot be used to
+ * run arbitrary commands.
+ *
+ * @returns Markdown tooltip for the status bar item
+ * @internal
+ */
+function buildTooltip(): vscode.MarkdownString {
+  const trustedCommands = new Set<string>();
   const lines = [
-    "=== ACS Shared Status Bar Diagnostics ===",
-    "",
-    `Active Extension Count: ${info.activeExtensionCount}`,
-    `Status Bar Exists: ${info.statusBarExists}`,
-    `Status Bar Visible: ${info.statusBarVisible}`,
-    `Command Registered: ${info.commandRegistered}`,
-    `Register Command Registered: ${info.registerCommandRegistered}`,
+    `**ACS Extensions (${activeExtensions.size} active)**`,
     "",
-    "Registered Extensions:",
+    "| | Extension | Details | Actions |",
+    "|:-:|---|---|---|",
   ];
 
-  if (info.registeredExtensions.length === 0) {
-    lines.push("  (none)");
-  } else {
-    info.registeredExtensions.forEach((ext) => {
-      lines.push(`  - ${ext}`);
-    });
+  for (const [id, meta] of getSortedExtensions()) {
+    const icon = STATUS_ICONS[getDisplayStatus(id, meta)];
+    const progress = activeProgress.get(id);
+    const reportedCount = reportedErrors.get(id)?.length || 0;
+    const details = [
+      getDisplayStatusMessage(id, meta),
+      meta.detail,
+      progress ? formatProgress(progress) : undefined,
+      reportedCount > 0 ? `${reportedCount} reported error(s)` : undefined,
+    ]
+      .filter((text): text is string => !!text)
+      .map(escapeMarkdown);
+    const links = (meta.actions || [])
+      .filter((action) => !getUnavailableReason(id, action))
+      .map((action) => {
+        // Links run through mcp-acs.runAction rather than the action's own
+        // command, so the click is handled like a menu selection: the
+        // action is checked against the current state, confirmed, timed
+        // out, its result applied and the action remembered as recent
+        const args = encodeURIComponent(JSON.stringify([id, action.label]));
+        trustedCommands.add("mcp-acs.runAction");
+        const title = action.description
+          ? ` "${action.description.replace(/["\\|]/g, "\\$&")}"`
+          : "";
+        return `[${escapeMarkdown(
+          action.label
+        )}](command:mcp-acs.runAction?${args}${title})`;
+      });
+    lines.push(
+      `| ${icon} | ${escapeMarkdown(meta.displayName || id)} | ${details.join(
+        " — "
+      )} | ${links.join(" · ")} |`
+    );
   }
 
-  lines.push("");
-  if (info.lastError) {
-    lines.push(`Last Error: ${info.lastError}`);
-  } else {
-    lines.push("Last Error: (none)");
+  const tooltip = new vscode.MarkdownString(lines.join("\n"), true);
+  tooltip.isTrusted = { enabledCommands: Array.from(trustedCommands) };
+  return tooltip;
+}
+
+/**
+ * Returns the registered extensions ordered by status severity (most severe
+ * first), keeping registration order for extensions with the same status.
+ *
+ * @internal
+ */
+function getSortedExtensions(): Array<[string, ExtensionMetadata]> {
+  return Array.from(activeExtensions).sort(
+    ([idA, a], [idB, b]) =>
+      STATUS_SEVERITY[getDisplayStatus(idB, b)] -
+      STATUS_SEVERITY[getDisplayStatus(idA, a)]
+  );
+}
+
+/**
+ * Returns the registered extensions sorted by group (by groupOrder, then
+ * alphabetically, with ungrouped extensions last), then by status severity,
+ * then by name.
+ *
+ * @internal
+ */
+function getGroupedExtensions(): Array<[string, ExtensionMetadata]> {
+  const groupOrders = new Map<string, number>();
+  for (const meta of activeExtensions.values()) {
+    if (meta.group && typeof meta.groupOrder === "number") {
+      groupOrders.set(
+        meta.group,
+        Math.min(groupOrders.get(meta.group) ?? Infinity, meta.groupOrder)
+      );
+    }
   }
 
-  lines.push("");
-  lines.push("===========================================");
+  return Array.from(activeExtensions).sort(([idA, a], [idB, b]) => {
+    const groupA = a.group || "";
+    const groupB = b.group || "";
+    if (groupA !== groupB) {
+      if (!groupA || !groupB) {
+        return groupA ? -1 : 1;
+      }
+      const orderA = groupOrders.get(groupA) ?? Infinity;
+      const orderB = groupOrders.get(groupB) ?? Infinity;
+      if (orderA !== orderB) {
+        return orderA < orderB ? -1 : 1;
+      }
+      return groupA.localeCompare(groupB);
+    }
+    return (
+      STATUS_SEVERITY[getDisplayStatus(idB, b)] -
+        STATUS_SEVERITY[getDisplayStatus(idA, a)] ||
+      (a.displayName || idA).localeCompare(b.displayName || idB)
+    );
+  });
+}
 
-  return lines.join("\n");
+/**
+ * Sets the text template of the status bar item.
+ *
+ * Placeholders are replaced with the current state:
+ * - `${icon}`: codicon of the worst status (`$(layers)` when all are ok)
+ * - `${name}`: "ACS"
+ * - `${count}`: number of registered extensions
+ * - `${errors}`, `${warnings}`, `${busy}`: number of extensions with errors,
+ *   warnings, and running operations (busy, starting or reporting progress)
+ * - `${reported}`: number of errors reported by extensions with reportError
+ * - `${message}`: most recent status or progress message
+ *
+ * The mcpAcs.statusBar.textTemplate setting takes precedence, so users can
+ * always override the owning extension's template. Only the template of the
+ * status bar owner is used.
+ *
+ * @param template - Template text, or undefined to restore the built-in text
+ *
+ * @example
+ * ```typescript
+ * setStatusBarTextTemplate("${icon} ${count} ${errors}");
+ * ```
+ */
+export function setStatusBarTextTemplate(template: string | undefined): void {
+  textTemplate = template || undefined;
+  logger.debug(
+    `Status bar text template ${template ? `set: ${template}` : "cleared"}`
+  );
+  if (activeExtensions.size > 0) {
+    updateStatusBar();
+  }
 }
 
 /**
- * Shows diagnostic information about the shared status bar.
+ * Replaces the placeholders of a text template with the current state.
+ * Unknown placeholders are left as they are.
  *
- * This is the command handler for mcp-acs.diagnostics, which displays
- * detailed information about the current state for troubleshooting.
+ * @internal
+ */
+function renderTextTemplate(template: string): string {
+  const statuses = Array.from(activeExtensions).map(([id, meta]) =>
+    getDisplayStatus(id, meta)
+  );
+  const health = getAggregateHealth();
+  const values: Record<string, string> = {
+    icon: health.status === "ok" ? "$(layers)" : STATUS_ICONS[health.status],
+    name: "ACS",
+    count: String(activeExtensions.size),
+    errors: String(statuses.filter((status) => status === "error").length),
+    warnings: String(
+      statuses.filter(
+        (status) => status === "warning" || status === "not responding"
+      ).length
+    ),
+    busy: String(
+      Array.from(activeExtensions).filter(([id, meta]) => isBusy(id, meta))
+        .length
+    ),
+    reported: String(getReportedErrorCount()),
+    message: lastMessage || "",
+  };
+  return template
+    .replace(/\$\{(\w+)\}/g, (placeholder, key: string) =>
+      key in values ? values[key] : placeholder
+    )
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Reads the status bar settings, falling back to the defaults
+ * (right aligned, priority 100, always visible, no text template) for
+ * missing or invalid values.
  *
  * @internal
  */
-async function showDiagnostics(): Promise<void> {
+function readStatusBarSettings(): StatusBarSettings {
+  const defaults: StatusBarSettings = {
+    alignment: vscode.StatusBarAlignment.Right,
+    priority: 100,
+    visibility: "always",
+    textTemplate: "",
+  };
   try {
-    const diagnosticInfo = getDiagnosticInfo();
-    const output = formatDiagnosticOutput(diagnosticInfo);
-
-    // Output to console
-    console.log(output);
-
-    // Output to output channel if available
-    if (outputChannel) {
-      outputChannel.appendLine(output);
-      outputChannel.show();
-    }
+    const config = vscode.workspace.getConfiguration("mcpAcs.statusBar");
+    const alignment = config.get<string>("alignment", "right");
+    const priority = config.get<number>("priority", defaults.priority);
+    const visibility = config.get<string>("visibility", defaults.visibility);
+    const template = config.get<string>("textTemplate", defaults.textTemplate);
+    return {
+      alignment:
+        alignment === "left"
+          ? vscode.StatusBarAlignment.Left
+          : vscode.StatusBarAlignment.Right,
+      priority: Number.isFinite(priority) ? priority : defaults.priority,
+      visibility:
+        visibility === "onIssues" || visibility === "never"
+          ? visibility
+          : defaults.visibility,
+      textTemplate: typeof template === "string" ? template : "",
+    };
+  } catch (error) {
+    logger.error("Failed to read status bar settings:", error);
+    return defaults;
+  }
+}
 
-    // Show information message to user
-    vscode.window.showInformationMessage(
-      `ACS Diagnostics: ${diagnosticInfo.activeExtensionCount} extension(s) active. Check output channel for details.`
-    );
+/**
+ * Whether the status bar item should currently be shown, based on the
+ * visibility setting and the health of the registered extensions.
+ *
+ * @internal
+ */
+function shouldShowStatusBar(): boolean {
+  if (activeExtensions.size === 0) {
+    return false;
+  }
+  const { visibility } = readStatusBarSettings();
+  if (visibility === "never") {
+    return false;
+  }
+  if (visibility === "onIssues") {
+    const { status } = getAggregateHealth();
+    return status === "error" || status === "warning";
+  }
+  return true;
+}
 
-    log("Diagnostics displayed successfully");
+/**
+ * Registers the listener that applies status bar setting changes.
+ *
+ * @internal
+ */
+function ensureConfigurationListener(): void {
+  if (configurationListenerDisposable) {
+    return;
+  }
+  try {
+    configurationListenerDisposable =
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (event.affectsConfiguration("mcpAcs.statusBar")) {
+          applyStatusBarSettings();
+        }
+      });
   } catch (error) {
-    logError("Failed to show diagnostics:", error);
-    vscode.window.showErrorMessage("Failed to display diagnostics");
+    logger.error("Failed to listen for configuration changes:", error);
   }
 }
 
 /**
- * Updates the status bar item based on the current extension count.
- *
- * This function implements the core singleton pattern logic:
- *
- * **When count is 0:**
- * - Hides the status bar item (if it exists)
- * - Does NOT dispose the item (maintains singleton)
+ * Applies changed status bar settings.
  *
- * **When count > 0 and status bar doesn't exist:**
- * - Creates the singleton status bar item
- * - Logs creation with full details
- * - Defensive check: verifies creation succeeded
- *
- * **When count > 0 and status bar exists:**
- * - Reuses the existing status bar item (singleton pattern)
- * - Updates text and tooltip to reflect current count
- * - Logs reuse to confirm singleton behavior
- *
- * The defensive checks in this function prevent the status bar doubling bug
- * by ensuring we never create a second status bar item.
+ * When alignment or priority changed, the item is disposed before a new one
+ * is created, so there is never more than one status bar item.
  *
  * @internal
  */
-function updateStatusBar(): void {
-  if (activeExtensions.size === 0) {
-    // Hide status bar when no extensions are active
-    if (statusBarItem) {
-      log("Hiding status bar (no active extensions)");
-      try {
-        statusBarItem.hide();
-        // Verify visibility state after hide
-        log("Status bar hidden successfully");
-      } catch (error) {
-        logError("Failed to hide status bar item:", error);
-      }
-    }
-    return;
-  }
+function applyStatusBarSettings(): void {
+  const settings = readStatusBarSettings();
+  logger.info(
+    `Status bar settings changed (alignment: ${
+      settings.alignment === vscode.StatusBarAlignment.Left ? "left" : "right"
+    }, priority: ${settings.priority}, visibility: ${settings.visibility})`
+  );
 
-  // SINGLETON PATTERN: Defensive check to prevent duplicate status bar items
-  // This is the key fix for the status bar doubling bug
-  if (!statusBarItem) {
-    // Status bar doesn't exist - create it (first extension registering)
+  if (
+    statusBarItem &&
+    statusBarSettings &&
+    (settings.alignment !== statusBarSettings.alignment ||
+      settings.priority !== statusBarSettings.priority)
+  ) {
+    logger.debug("Recreating status bar item with new alignment/priority");
     try {
-      log(
-        `Creating status bar item (active extensions: ${activeExtensions.size})`
-      );
-      statusBarItem = vscode.window.createStatusBarItem(
-        "mcp-acs.shared-status",
-        vscode.StatusBarAlignment.Right,
-        100
-      );
+      statusBarItem.dispose();
+    } catch (error) {
+      logger.error("Failed to dispose status bar item:", error);
+    }
+    statusBarItem = undefined;
+    statusBarSettings = undefined;
+  }
 
-      // Defensive check: verify creation succeeded
-      if (!statusBarItem) {
-        const errorMsg = "Status bar item creation returned undefined";
-        log(`ERROR: ${errorMsg}`);
-        lastError = errorMsg;
-        return;
-      }
+  updateStatusBar();
+}
 
-      log(
-        `Status bar item created successfully (ID: mcp-acs.shared-status, alignment: Right, priority: 100)`
-      );
-      // Always set the command — even if we didn't register it ourselves,
-      // VS Code will route the click to whichever extension owns the command.
-      statusBarItem.command = "mcp-acs.showMenu";
-    } catch (error) {
-      logError("Failed to create status bar item:", error);
-      return;
+/**
+ * Computes the worst status across all registered extensions.
+ *
+ * @returns The worst status and how many extensions currently report it
+ *   (extensions that are not responding count as warnings)
+ * @internal
+ */
+function getAggregateHealth(): { status: ExtensionStatus; count: number } {
+  let status: ExtensionStatus = "ok";
+  let count = 0;
+  for (const [id, meta] of activeExtensions) {
+    const displayStatus = getDisplayStatus(id, meta);
+    // Extensions that stopped responding are surfaced as warnings
+    const current =
+      displayStatus === "not responding" ? "warning" : displayStatus;
+    if (STATUS_SEVERITY[current] < STATUS_SEVERITY.ok) {
+      // Stopped and disabled extensions do not affect the aggregate
+      continue;
+    }
+    if (STATUS_SEVERITY[current] > STATUS_SEVERITY[status]) {
+      status = current;
+      count = 1;
+    } else if (current === status) {
+      count++;
     }
-  } else {
-    // SINGLETON PATTERN: Status bar already exists - reuse it
-    // This prevents creating duplicate status bar items
-    log(
-      `Reusing existing status bar item (active extensions: ${activeExtensions.size})`
-    );
   }
+  return { status, count };
+}
 
-  // Update status bar content
-  statusBarItem.text = "$(layers) ACS";
-  statusBarItem.tooltip = `ACS Extensions (${activeExtensions.size} active)`;
-  log(`Showing status bar with ${activeExtensions.size} active extension(s)`);
-  try {
-    statusBarItem.show();
-    // Verify visibility state after show
-    log("Status bar shown successfully");
-  } catch (error) {
-    logError("Failed to show status bar item:", error);
+/**
+ * Combines the progress of all running operations.
+ *
+ * @returns Undefined when nothing is running, otherwise the average completion
+ *   percentage of all determinate operations (undefined if none is determinate)
+ * @internal
+ */
+function getAggregateProgress(): { percent?: number } | undefined {
+  if (activeProgress.size === 0) {
+    return undefined;
   }
+  const percents = Array.from(activeProgress.values())
+    .filter((state) => state.determinate)
+    .map(getProgressPercent);
+  if (percents.length === 0) {
+    return {};
+  }
+  return {
+    percent: Math.round(
+      percents.reduce((sum, percent) => sum + percent, 0) / percents.length
+    ),
+  };
 }
 
 /**
  * Disposes all resources used by the shared status bar.
  *
  * This function cleans up:
- * - The show menu command (mcp-acs.showMenu)
+ * - The show menu command (mcp-acs.showMenu) and the open menu
+ * - The register, unregister, update, progress and heartbeat commands
+ * - The action palette command and the commands of the registered actions
+ * - The export diagnostics and clear errors commands
+ * - The missed heartbeat check
+ * - This copy's successor command
  * - The diagnostic command (mcp-acs.diagnostics)
  * - The status bar item
  * - All registered extensions
  * - Error state
  *
+ * If other copies of the library still have extensions registered with this
+ * owner, the owner hands their state to one of them before disposing.
+ *
  * Each disposal operation is wrapped in try-catch to ensure that if one
  * disposal fails, the others still execute. This provides robust cleanup
  * even in error conditions.
  *
  * This function is typically called during test cleanup or when the
- * extension host is shutting down.
+ * extension host is shutting down. Everything but the handoff happens
+ * synchronously; return the promise from `deactivate` so the extension host
+ * waits for the successor to accept before it exits.
+ *
+ * @returns A promise that resolves once the handoff has finished
  */
-export function dispose(): void {
-  log(
+export function dispose(): Promise<void> {
+  logger.info(
     `Disposing shared status bar (active extensions: ${activeExtensions.size})`
   );
 
+  // Hand the remaining extensions to another copy of the library before
+  // this one goes away, so they keep their status bar entries
+  const snapshot = registerCommandDisposable
+    ? createOwnershipSnapshot()
+    : undefined;
+
+  disposeOwnerResources();
+
+  // Dispose successor command
+  try {
+    if (successorCommandDisposable) {
+      successorCommandDisposable.dispose();
+      logger.debug(`Command disposed: ${getSuccessorCommandId()}`);
+    }
+    successorCommandDisposable = undefined;
+  } catch (error) {
+    logger.error("Failed to dispose successor command:", error);
+  }
+
+  // Clear all state
+  const extensionCount = activeExtensions.size;
+  clearExtensionState();
+  localExtensions.clear();
+  pendingOutputChannels.clear();
+  knownOwnerCommands.clear();
+  errorHistory.length = 0;
+  logger.info(
+    `Shared status bar disposed successfully (cleared ${extensionCount} extension(s))`
+  );
+  const handoff =
+    snapshot && snapshot.extensions.length > 0
+      ? transferOwnership(snapshot, false)
+      : Promise.resolve();
+  outputChannel = undefined;
+  // The handoff still logs, so stop listening for the log level after it
+  return handoff.then(disposeLogLevelListener);
+}
+
+/**
+ * Disposes the commands, menu and status bar item owned by this copy of the library.
+ *
+ * Each disposal operation is wrapped in try-catch so that one failure does
+ * not prevent the remaining resources from being disposed.
+ *
+ * @internal
+ */
+function disposeOwnerResources(): void {
   // Dispose show menu command
   try {
     if (commandDisposable) {
       commandDisposable.dispose();
-      log("Command disposed: mcp-acs.showMenu");
+      logger.debug("Command disposed: mcp-acs.showMenu");
     }
     commandDisposable = undefined;
   } catch (error) {
-    logError("Failed to dispose command:", error);
+    logger.error("Failed to dispose command:", error);
+  }
+
+  // Close the open menu, its items refer to the disposed state
+  try {
+    const openMenu = menu;
+    menu = undefined;
+    menuExtensionId = undefined;
+    menuShowsErrors = false;
+    openMenu?.dispose();
+  } catch (error) {
+    logger.error("Failed to dispose menu:", error);
   }
 
   // Dispose register extension command
   try {
     if (registerCommandDisposable) {
       registerCommandDisposable.dispose();
-      log("Command disposed: mcp-acs.registerExtension");
+      logger.debug("Command disposed: mcp-acs.registerExtension");
     }
     registerCommandDisposable = undefined;
   } catch (error) {
-    logError("Failed to dispose register command:", error);
+    logger.error("Failed to dispose register command:", error);
+  }
+
+  // Dispose protocol info command
+  try {
+    if (protocolCommandDisposable) {
+      protocolCommandDisposable.dispose();
+      logger.debug("Command disposed: mcp-acs.getProtocolInfo");
+    }
+    protocolCommandDisposable = undefined;
+  } catch (error) {
+    logger.error("Failed to dispose protocol info command:", error);
   }
 
   // Dispose unregister extension command
   try {
     if (unregisterCommandDisposable) {
       unregisterCommandDisposable.dispose();
-      log("Command disposed: mcp-acs.unregisterExtension");
+      logger.debug("Command disposed: mcp-acs.unregisterExtension");
     }
     unregisterCommandDisposable = undefined;
   } catch (error) {
-    logError("Failed to dispose unregister command:", error);
+    logger.error("Failed to dispose unregister command:", error);
+  }
+
+  // Dispose update extension command
+  try {
+    if (updateCommandDisposable) {
+      updateCommandDisposable.dispose();
+      logger.debug("Command disposed: mcp-acs.updateExtension");
+    }
+    updateCommandDisposable = undefined;
+  } catch (error) {
+    logger.error("Failed to dispose update command:", error);
+  }
+
+  // Dispose report progress command
+  try {
+    if (progressCommandDisposable) {
+      progressCommandDisposable.dispose();
+      logger.debug("Command disposed: mcp-acs.reportProgress");
+    }
+    progressCommandDisposable = undefined;
+  } catch (error) {
+    logger.error("Failed to dispose progress command:", error);
+  }
+
+  // Dispose report error command
+  try {
+    if (reportErrorCommandDisposable) {
+      reportErrorCommandDisposable.dispose();
+      logger.debug("Command disposed: mcp-acs.reportError");
+    }
+    reportErrorCommandDisposable = undefined;
+  } catch (error) {
+    logger.error("Failed to dispose report error command:", error);
+  }
+
+  // Dispose heartbeat command
+  try {
+    if (heartbeatCommandDisposable) {
+      heartbeatCommandDisposable.dispose();
+      logger.debug("Command disposed: mcp-acs.heartbeat");
+    }
+    heartbeatCommandDisposable = undefined;
+  } catch (error) {
+    logger.error("Failed to dispose heartbeat command:", error);
+  }
+
+  // Dispose action palette command
+  try {
+    if (runActionCommandDisposable) {
+      runActionCommandDisposable.dispose();
+      logger.debug("Command disposed: mcp-acs.runAction");
+    }
+    runActionCommandDisposable = undefined;
+  } catch (error) {
+    logger.error("Failed to dispose action palette command:", error);
   }
 
+  // Dispose export diagnostics command
+  try {
+    if (exportDiagnosticsCommandDisposable) {
+      exportDiagnosticsCommandDisposable.dispose();
+      logger.debug("Command disposed: mcp-acs.exportDiagnostics");
+    }
+    exportDiagnosticsCommandDisposable = undefined;
+  } catch (error) {
+    logger.error("Failed to dispose export diagnostics command:", error);
+  }
+
+  // Dispose clear errors command
+  try {
+    if (clearErrorsCommandDisposable) {
+      clearErrorsCommandDisposable.dispose();
+      logger.debug("Command disposed: mcp-acs.clearErrors");
+    }
+    clearErrorsCommandDisposable = undefined;
+  } catch (error) {
+    logger.error("Failed to dispose clear errors command:", error);
+  }
+
+  // Dispose the commands of the registered actions
+  disposeActionCommands();
+
   // Dispose diagnostic command
   try {
     if (diagnosticCommandDisposable) {
       diagnosticCommandDisposable.dispose();
-      log("Diagnostic command disposed: mcp-acs.diagnostics");
+      logger.debug("Diagnostic command disposed: mcp-acs.diagnostics");
     }
     diagnosticCommandDisposable = undefined;
   } catch (error) {
-    logError("Failed to dispose diagnostic command:", error);
+    logger.error("Failed to dispose diagnostic command:", error);
   }
 
   // Dispose status bar item
   try {
     if (statusBarItem) {
       statusBarItem.dispose();
-      log("Status bar item disposed");
+      logger.debug("Status bar item disposed");
     }
     statusBarItem = undefined;
   } catch (error) {
-    logError("Failed to dispose status bar item:", error);
+    logger.error("Failed to dispose status bar item:", error);
   }
+  statusBarSettings = undefined;
 
-  // Clear all state
-  const extensionCount = activeExtensions.size;
+  // Dispose configuration listener
+  try {
+    if (configurationListenerDisposable) {
+      configurationListenerDisposable.dispose();
+      logger.debug("Configuration listener disposed");
+    }
+    configurationListenerDisposable = undefined;
+  } catch (error) {
+    logger.error("Failed to dispose configuration listener:", error);
+  }
+}
+
+/**
+ * Clears all registered extensions and the state tracked for them.
+ *
+ * @internal
+ */
+function clearExtensionState(): void {
   activeExtensions.clear();
-  lastError = null;
-  log(
-    `Shared status bar disposed successfully (cleared ${extensionCount} extension(s))`
-  );
-  outputChannel = undefined;
+  activeProgress.clear();
+  reportedErrors.clear();
+  extensionRecords.clear();
+  heartbeats.clear();
+  staleExtensions.clear();
+  successors.clear();
+  stopHeartbeatCheck();
+  lastMessage = undefined;
+  lastMessageExtensionId = undefined;
+}
+
+/**
+ * Replaces the message of an extension that went away with the progress or
+ * status message of the most recently updated remaining extension, if any.
+ *
+ * @internal
+ */
+function restoreLastMessage(): void {
+  lastMessage = undefined;
+  lastMessageExtensionId = undefined;
+  let updatedAt = -Infinity;
+  for (const [id, meta] of activeExtensions) {
+    const message = activeProgress.get(id)?.message || meta.statusMessage;
+    const record = extensionRecords.get(id);
+    if (message && record && record.updatedAt >= updatedAt) {
+      lastMessage = message;
+      lastMessageExtensionId = id;
+      updatedAt = record.updatedAt;
+    }
+  }
 }
 
 /**
@@ -902,6 +5296,23 @@ export function getCommandDisposable(): vscode.Disposable | undefined {
   return commandDisposable;
 }
 
+/**
+ * Status snapshot of a single registered extension.
+ */
+export interface ExtensionDiagnostic {
+  /** Extension ID used at registration */
+  id: string;
+
+  /** Current status ("ok" when the extension did not report one) */
+  status: DisplayStatus;
+
+  /** Human-readable status message, if any */
+  statusMessage?: string;
+
+  /** Time of the last heartbeat (ms since epoch), if the extension sends heartbeats */
+  lastHeartbeat?: number;
+}
+
 /**
  * Diagnostic information about the shared status bar state.
  *
@@ -915,6 +5326,9 @@ export interface DiagnosticInfo {
   /** Array of registered extension IDs */
   registeredExtensions: string[];
 
+  /** Status of each registered extension, most severe first */
+  extensions: ExtensionDiagnostic[];
+
   /** Whether the status bar item exists */
   statusBarExists: boolean;
 
@@ -927,10 +5341,33 @@ export interface DiagnosticInfo {
   /** Whether the register extension command is registered */
   registerCommandRegistered: boolean;
 
-  /** Last error that occurred, if any */
+  /** Most recent errors, oldest first */
+  errors: ErrorRecord[];
+
+  /** Last error that occurred, if any (same as the last entry of errors) */
   lastError: string | null;
 }
 
+/**
+ * An error kept in the error history.
+ */
+export interface ErrorRecord {
+  /** When the error occurred (ISO timestamp) */
+  timestamp: string;
+
+  /** What was being done when the error occurred */
+  operation: string;
+
+  /** The extension the failed operation was for, if any */
+  extensionId?: string;
+
+  /** The error message */
+  message: string;
+
+  /** The stack trace, if the error had one */
+  stack?: string;
+}
+
 /**
  * Gets diagnostic information about the current state of the shared status bar.
  *
@@ -949,14 +5386,24 @@ export interface DiagnosticInfo {
  * ```
  */
 export function getDiagnosticInfo(): DiagnosticInfo {
+  const lastErrorRecord = errorHistory[errorHistory.length - 1];
   return {
     activeExtensionCount: activeExtensions.size,
     registeredExtensions: Array.from(activeExtensions.keys()),
+    extensions: getSortedExtensions().map(([id, meta]) => ({
+      id,
+      status: getDisplayStatus(id, meta),
+      statusMessage: getDisplayStatusMessage(id, meta),
+      lastHeartbeat: heartbeats.get(id)?.lastSeen,
+    })),
     statusBarExists: statusBarItem !== undefined,
-    statusBarVisible: statusBarItem !== undefined && activeExtensions.size > 0,
+    statusBarVisible: statusBarItem !== undefined && shouldShowStatusBar(),
     commandRegistered: commandDisposable !== undefined,
     registerCommandRegistered: registerCommandDisposable !== undefined,
-    lastError: lastError,
+    errors: errorHistory.map((record) => ({ ...record })),
+    lastError: lastErrorRecord
+      ? `${lastErrorRecord.operation}: ${lastErrorRecord.message}`
+      : null,
   };
 }
 
@@ -968,6 +5415,20 @@ export function getDiagnosticInfo(): DiagnosticInfo {
  */
 export function resetStateForTesting(): void {
   activeExtensions.clear();
+  activeProgress.clear();
+  reportedErrors.clear();
+  heartbeats.clear();
+  staleExtensions.clear();
+  successors.clear();
+  localExtensions.clear();
+  pendingOutputChannels.clear();
+  knownOwnerCommands.clear();
+  compatibilityWarnings.clear();
+  disposeLogLevelListener();
+  if (heartbeatCheckTimer) {
+    clearInterval(heartbeatCheckTimer);
+    heartbeatCheckTimer = undefined;
+  }
   if (statusBarItem) {
     try {
       statusBarItem.dispose();
@@ -1000,6 +5461,99 @@ export function resetStateForTesting(): void {
     }
     unregisterCommandDisposable = undefined;
   }
+  if (updateCommandDisposable) {
+    try {
+      updateCommandDisposable.dispose();
+    } catch (e) {
+      // Ignore errors during reset
+    }
+    updateCommandDisposable = undefined;
+  }
+  if (progressCommandDisposable) {
+    try {
+      progressCommandDisposable.dispose();
+    } catch (e) {
+      // Ignore errors during reset
+    }
+    progressCommandDisposable = undefined;
+  }
+  if (reportErrorCommandDisposable) {
+    try {
+      reportErrorCommandDisposable.dispose();
+    } catch (e) {
+      // Ignore errors during reset
+    }
+    reportErrorCommandDisposable = undefined;
+  }
+  if (heartbeatCommandDisposable) {
+    try {
+      heartbeatCommandDisposable.dispose();
+    } catch (e) {
+      // Ignore errors during reset
+    }
+    heartbeatCommandDisposable = undefined;
+  }
+  if (runActionCommandDisposable) {
+    try {
+      runActionCommandDisposable.dispose();
+    } catch (e) {
+      // Ignore errors during reset
+    }
+    runActionCommandDisposable = undefined;
+  }
+  if (exportDiagnosticsCommandDisposable) {
+    try {
+      exportDiagnosticsCommandDisposable.dispose();
+    } catch (e) {
+      // Ignore errors during reset
+    }
+    exportDiagnosticsCommandDisposable = undefined;
+  }
+  if (clearErrorsCommandDisposable) {
+    try {
+      clearErrorsCommandDisposable.dispose();
+    } catch (e) {
+      // Ignore errors during reset
+    }
+    clearErrorsCommandDisposable = undefined;
+  }
+  for (const disposables of actionCommandDisposables.values()) {
+    for (const disposable of disposables.values()) {
+      try {
+        disposable.dispose();
+      } catch (e) {
+        // Ignore errors during reset
+      }
+    }
+  }
+  actionCommandDisposables.clear();
+  extensionRecords.clear();
+  logTail.length = 0;
+  if (successorCommandDisposable) {
+    try {
+      successorCommandDisposable.dispose();
+    } catch (e) {
+      // Ignore errors during reset
+    }
+    successorCommandDisposable = undefined;
+  }
+  if (protocolCommandDisposable) {
+    try {
+      protocolCommandDisposable.dispose();
+    } catch (e) {
+      // Ignore errors during reset
+    }
+    protocolCommandDisposable = undefined;
+  }
+  if (configurationListenerDisposable) {
+    try {
+      configurationListenerDisposable.dispose();
+    } catch (e) {
+      // Ignore errors during reset
+    }
+    configurationListenerDisposable = undefined;
+  }
+  statusBarSettings = undefined;
   if (diagnosticCommandDisposable) {
     try {
       diagnosticCommandDisposable.dispose();
@@ -1008,6 +5562,21 @@ export function resetStateForTesting(): void {
     }
     diagnosticCommandDisposable = undefined;
   }
+  if (menu) {
+    try {
+      menu.dispose();
+    } catch (e) {
+      // Ignore errors during reset
+    }
+    menu = undefined;
+  }
+  menuExtensionId = undefined;
+  menuShowsErrors = false;
+  globalState = undefined;
+  recentActions = [];
+  textTemplate = undefined;
+  lastMessage = undefined;
+  lastMessageExtensionId = undefined;
   outputChannel = undefined;
-  lastError = null;
+  errorHistory.length = 0;
 }